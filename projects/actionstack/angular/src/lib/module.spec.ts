@@ -0,0 +1,148 @@
+import { action, Action, FeatureModule, MainModule, Store } from '@actioncrew/actionstack';
+import { createEnvironmentInjector, EnvironmentInjector, ErrorHandler, Injector, NgZone, PLATFORM_ID } from '@angular/core';
+import { TransferState } from '@angular/platform-browser';
+import { provideModule, provideStore } from './module';
+
+const loaded = action("LOADED", (user: string) => user);
+
+const module: MainModule = {
+  slice: "main",
+  reducer: (state: string[] = [], action: Action) => loaded.match(action) ? [...state, action.payload] : state,
+  strategy: "concurrent"
+};
+
+/**
+ * Creates a thunk loading a user once the gate is opened, standing in for a server call.
+ */
+const deferred = (user: string) => {
+  let open!: () => void;
+  const gate = new Promise<void>(resolve => open = resolve);
+  const load = action(() => async (dispatch: Function) => {
+    await gate;
+    await dispatch(loaded(user));
+  });
+  return { load, open };
+};
+
+/**
+ * Creates the environment injector of a request rendered on the server.
+ */
+const request = (): EnvironmentInjector => createEnvironmentInjector(
+  [provideStore(module), { provide: PLATFORM_ID, useValue: "server" }, TransferState],
+  Injector.NULL as EnvironmentInjector
+);
+
+const stateOf = (store: Store): Promise<any> => new Promise(resolve => store.read([], resolve));
+
+describe('StoreModule on the server', () => {
+  let zone: NgZone;
+  let injectors: EnvironmentInjector[];
+
+  beforeEach(() => {
+    zone = new NgZone({});
+    injectors = [request(), request()];
+  });
+
+  afterEach(() => {
+    injectors.forEach(injector => injector.destroy());
+  });
+
+  it('creates an isolated store for every request', async () => {
+    const [first, second] = zone.run(() => injectors.map(injector => injector.get(Store)));
+    expect(first).not.toBe(second);
+
+    const alice = deferred("alice"), bob = deferred("bob");
+    zone.run(() => {
+      first.dispatch(alice.load());
+      second.dispatch(bob.load());
+    });
+
+    bob.open();
+    alice.open();
+    await Promise.all([first.settled(), second.settled()]);
+
+    expect((await stateOf(first)).main).toEqual(["alice"]);
+    expect((await stateOf(second)).main).toEqual(["bob"]);
+  });
+
+  it('keeps the application unstable until the store has settled', async () => {
+    // The application is stable once the zone has no pending microtasks nor macrotasks
+    const stable = () => zone.isStable && !zone.hasPendingMacrotasks;
+    const store = zone.run(() => injectors[0].get(Store));
+    await store.settled();
+    await new Promise(resolve => setTimeout(resolve));
+    expect(stable()).toBeTrue();
+
+    const { load, open } = deferred("alice");
+    zone.run(() => store.dispatch(load()));
+    await new Promise(resolve => setTimeout(resolve));
+    expect(stable()).toBeFalse();
+
+    open();
+    await store.settled();
+    await new Promise(resolve => setTimeout(resolve));
+    expect(stable()).toBeTrue();
+    expect((await stateOf(store)).main).toEqual(["alice"]);
+  });
+
+  it('disposes the store together with the injector of the request', async () => {
+    const store = zone.run(() => injectors[0].get(Store));
+    await store.settled();
+    expect(store.disposed).toBeFalse();
+
+    injectors.shift()!.destroy();
+    await new Promise(resolve => setTimeout(resolve));
+    expect(store.disposed).toBeTrue();
+  });
+});
+
+describe('StoreModule.forFeature', () => {
+  const feature: FeatureModule = { slice: "feature", reducer: (state: number = 0) => state };
+  let root: EnvironmentInjector;
+
+  /**
+   * Creates the environment injector of the application, with the error handler if provided.
+   */
+  const application = (errorHandler?: ErrorHandler): EnvironmentInjector => createEnvironmentInjector(
+    [provideStore(module), { provide: PLATFORM_ID, useValue: "browser" }, TransferState, errorHandler ? { provide: ErrorHandler, useValue: errorHandler } : []],
+    Injector.NULL as EnvironmentInjector
+  );
+
+  afterEach(() => {
+    root.destroy();
+  });
+
+  it('loads the feature into the store once its injector is created', async () => {
+    root = application();
+    const store = root.get(Store);
+
+    createEnvironmentInjector(provideModule(feature), root);
+    await store.settled();
+
+    expect(store.inspect().modules).toEqual([{ slice: "feature", references: 1 }]);
+  });
+
+  it('passes the errors of loading the feature to the error handler', async () => {
+    const errorHandler = jasmine.createSpyObj<ErrorHandler>("ErrorHandler", ["handleError"]);
+    root = application(errorHandler);
+    const store = root.get(Store);
+    await store.dispose();
+
+    createEnvironmentInjector(provideModule(feature), root);
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(errorHandler.handleError).toHaveBeenCalledOnceWith(new Error("The store has been disposed."));
+  });
+
+  it('writes the errors of loading the feature to the diagnostics without an error handler', async () => {
+    root = application();
+    const store = root.get(Store);
+    const error = spyOn(store.diagnostics, "error");
+    await store.dispose();
+
+    createEnvironmentInjector(provideModule(feature), root);
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(error).toHaveBeenCalledOnceWith("module", "Error occurred while loading module feature: The store has been disposed.");
+  });
+});
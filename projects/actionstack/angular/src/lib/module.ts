@@ -0,0 +1,238 @@
+import {
+  composeEnhancers,
+  ExecutionStack,
+  FeatureModule,
+  MainModule,
+  Middleware,
+  Operation,
+  Store,
+  StoreEnhancer,
+  StoreError,
+  StoreSettings,
+  toSlicePath,
+} from '@actioncrew/actionstack';
+import { isPlatformServer } from '@angular/common';
+import {
+  ENVIRONMENT_INITIALIZER,
+  EnvironmentInjector,
+  ErrorHandler,
+  inject,
+  InjectFlags,
+  InjectionToken,
+  Injector,
+  ModuleWithProviders,
+  NgModule,
+  Optional,
+  PLATFORM_ID,
+  Provider,
+} from '@angular/core';
+import { makeStateKey, TransferState } from '@angular/platform-browser';
+
+/**
+ * The part of the zone.js API used to keep the application unstable while the store is busy.
+ */
+interface ZoneTask {
+  invoke(): void;
+}
+
+interface CurrentZone {
+  scheduleMacroTask(source: string, callback: () => void, data: object, customSchedule: (task: ZoneTask) => void, customCancel: (task: ZoneTask) => void): ZoneTask;
+}
+
+declare const Zone: { current: CurrentZone };
+
+
+/**
+ * Multi-provider token of the store enhancers.
+ * The enhancers are composed in the order they are provided, the first one wrapping all the others.
+ */
+export const STORE_ENHANCER = new InjectionToken<StoreEnhancer[]>("Store Enhancer");
+
+/**
+ * Key of the store state transferred from the server to the browser.
+ */
+export const STORE_STATE_KEY = makeStateKey<any>("actionstack");
+
+/**
+ * Type alias for the token a store is provided under.
+ * The default store is provided under the `Store` class, named stores under injection tokens.
+ */
+export type StoreToken = typeof Store | InjectionToken<Store>;
+
+/**
+ * This module provides a centralized mechanism for managing application state
+ * using store instances within an Angular application.
+ *
+ * It offers methods for configuring the store for the root module (`forRoot`)
+ * and for feature modules (`forFeature`). Each environment injector importing `forRoot`
+ * gets its own store instance, so several independent stores can live in one application.
+ * Named stores are provided under injection tokens passed to both methods.
+ */
+@NgModule({})
+export class StoreModule {
+  /**
+   * Static method used to configure the store for the root module of the application.
+   * The store is created once per environment injector providing it.
+   * When rendered on the server, the state of the store is serialized into the `TransferState`,
+   * and the store in the browser is created from it instead of the initial state of the module.
+   * On the server every request gets a fresh store with its application injector. The application is
+   * not stable until the store has settled, so it is rendered once the pending thunks and the actions
+   * of epics and sagas are processed. The store is disposed together with the environment injector.
+   * The errors reported by the store are passed to the Angular `ErrorHandler`, except for the rethrown ones,
+   * which reach the caller.
+   * @param module - The main application module to be used with the store.
+   * @param token - The token to provide the store under. Defaults to the `Store` class.
+   * @returns ModuleWithProviders - An object defining the StoreModule with its providers.
+   */
+  static forRoot(module: MainModule, token: StoreToken = Store): ModuleWithProviders<StoreModule> {
+    return {
+      ngModule: StoreModule,
+      providers: [
+        {
+          provide: StoreSettings,
+          useClass: StoreSettings
+        },
+        {
+          provide: token,
+          useFactory: (settings: StoreSettings, enhancers: StoreEnhancer[] | null, injector: EnvironmentInjector, transferState: TransferState, platformId: Object, errorHandler: ErrorHandler | null) => {
+            const enhancer = enhancers?.length ? composeEnhancers(...enhancers) : undefined;
+            const key = token === Store ? STORE_STATE_KEY : makeStateKey<any>(`actionstack:${token.toString()}`);
+            const initialState = transferState.get(key, module.initialState);
+
+            // On the server the rendering waits for the store to settle
+            let store: Store | undefined;
+            const middleware = isPlatformServer(platformId) ? [pending(() => store), ...(module.middleware ?? [])] : module.middleware;
+
+            // Dependencies of the modules are resolved by the Angular injector
+            store = Store.create({ ...module, middleware, initialState }, { ...settings, resolver: injector }, enhancer)!;
+
+            // The state is serialized only when rendered on the server
+            let state = initialState;
+            const subscription = store.select(state$ => state$).subscribe(value => state = value);
+            transferState.onSerialize(key, () => state);
+            // Errors handled by the store are reported to the application error handler
+            subscription.add(store.errors$.subscribe(error => error.policy !== "rethrow" && errorHandler?.handleError(error)));
+
+            onDestroy(injector, () => {
+              subscription.unsubscribe();
+              store!.dispose();
+            });
+
+            return store;
+          },
+          deps: [StoreSettings, [new Optional(), STORE_ENHANCER], EnvironmentInjector, TransferState, PLATFORM_ID, [new Optional(), ErrorHandler]]
+        }
+      ]
+    };
+  }
+
+  /**
+   * Static method used to configure the store for feature modules within the application.
+   * The feature module is loaded into the nearest store provided under the token
+   * once the environment injector of the feature is created. Errors of loading the module
+   * the store has not reported are passed to the Angular `ErrorHandler`.
+   * @param module - The feature module to be used with the store.
+   * @param token - The token of the store to attach to. Defaults to the `Store` class.
+   * @returns ModuleWithProviders - An object defining the StoreModule.
+   */
+  static forFeature(module: FeatureModule, token: StoreToken = Store): ModuleWithProviders<StoreModule> {
+    return {
+      ngModule: StoreModule,
+      providers: [
+        {
+          provide: ENVIRONMENT_INITIALIZER,
+          multi: true,
+          useValue: () => {
+            const store = inject(token), errorHandler = inject(ErrorHandler, InjectFlags.Optional);
+            // Dependencies of the feature are resolved by the injector of the feature
+            store.loadModule(module, inject(Injector)).catch(error => reportModuleError(store, errorHandler, error, module));
+          }
+        }
+      ]
+    };
+  }
+}
+
+
+/**
+ * Creates middleware keeping the Angular zone unstable until the store has settled.
+ * Thunks are not passed down the middleware chain, so the middleware watches the execution stack instead,
+ * and the task is scheduled in the zone of the code starting the action.
+ * The store is passed lazily, since the middleware is applied while the store is being created.
+ */
+function pending(store: () => Store | undefined): Middleware {
+  let task: ZoneTask | undefined;
+  let watched = false;
+
+  const schedule = (operations: Operation[]) => {
+    const current = store();
+    const started = operations.some(operation => operation.operation === "action" || operation.operation === "async action");
+    if (current && started && !task && typeof Zone !== 'undefined') {
+      task = Zone.current.scheduleMacroTask('actionstack', () => {}, {}, () => {}, () => {});
+      const invoke = () => {
+        const settled = task!;
+        task = undefined;
+        settled.invoke();
+      };
+      // A disposed store does not keep the application unstable either
+      current.settled().then(invoke, invoke);
+    }
+  };
+
+  // The middleware is applied again whenever the chain is recomposed, the stack is watched once
+  const middleware = ({ stack }: { stack: ExecutionStack }) => {
+    if (!watched) {
+      watched = true;
+      stack.operations$.subscribe(schedule);
+    }
+    return (next: Function) => async (action: any) => await next(action);
+  };
+
+  middleware.signature = 'h.q.n.d.u.x.0.1.7.x';
+  return middleware;
+}
+
+/**
+ * Reports an error of loading a feature module nobody awaits.
+ * Errors the store has reported are already passed to the `ErrorHandler` by `forRoot`, except for the rethrown ones.
+ * Without an `ErrorHandler`, the error is written to the diagnostics of the store.
+ */
+function reportModuleError(store: Store, errorHandler: ErrorHandler | null, error: any, module: FeatureModule): void {
+  if (error instanceof StoreError && error.policy !== "rethrow") {
+    return;
+  }
+
+  if (errorHandler) {
+    errorHandler.handleError(error);
+  } else {
+    store.diagnostics.error("module", `Error occurred while loading module ${toSlicePath(module.slice).join('.')}: ${error?.message ?? error}`);
+  }
+}
+
+/**
+ * Registers a callback invoked when the environment injector is destroyed.
+ * Environment injectors implement the method, though Angular 14 does not declare it on the `EnvironmentInjector` type.
+ */
+function onDestroy(injector: EnvironmentInjector, callback: () => void): void {
+  (injector as EnvironmentInjector & { onDestroy?(callback: () => void): void }).onDestroy?.(callback);
+}
+
+/**
+ * Provides the store configuration for use in standalone components or traditional modules.
+ * @param module - The main application module to be used with the store.
+ * @param token - The token to provide the store under. Defaults to the `Store` class.
+ * @returns Array of providers - An array of providers to be used in standalone components.
+ */
+export function provideStore(module: MainModule, token: StoreToken = Store): Provider[] {
+  return StoreModule.forRoot(module, token).providers as Provider[];
+}
+
+/**
+ * Provides the feature module configuration for use in standalone components or traditional modules.
+ * @param module - The feature module to be used with the store.
+ * @param token - The token of the store to attach to. Defaults to the `Store` class.
+ * @returns Array of providers - An array of providers to be used in standalone components.
+ */
+export function provideModule(module: FeatureModule, token: StoreToken = Store): Provider[] {
+  return StoreModule.forFeature(module, token).providers as Provider[];
+}
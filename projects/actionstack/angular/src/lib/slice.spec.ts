@@ -0,0 +1,92 @@
+import { action, Action, featureSelector, Store, store as createStore } from '@actioncrew/actionstack';
+import { ElementRef, Injector } from '@angular/core';
+import { Observable } from 'rxjs/internal/Observable';
+import { Slice } from './slice';
+
+const rename = action("RENAME", (name: string) => name);
+
+const hero = (state: { name: string } = { name: "" }, action: Action) => rename.match(action) ? { name: action.payload } : state;
+
+const stateOf = (store: Store): Promise<any> => new Promise(resolve => store.read([], resolve));
+const valueOf = (value$: Observable<any>): Promise<any> => new Promise(resolve => value$.subscribe(value => value !== undefined && resolve(value)));
+
+describe('Slice', () => {
+  let store: Store;
+
+  /**
+   * Creates the Slice of a `hero-details` component rendered with the given key.
+   */
+  const render = (key?: number): Slice => {
+    const injector = Injector.create({
+      providers: [
+        { provide: Store, useValue: store },
+        { provide: ElementRef, useValue: new ElementRef({ localName: "hero-details" }) },
+        { provide: Slice, useClass: Slice, deps: [Store, Injector] }
+      ]
+    });
+    const slice = injector.get(Slice);
+    slice.setup({ key, reducer: hero, strategy: "temporary" });
+    return slice;
+  };
+
+  beforeEach(() => {
+    store = createStore({ slice: "main", reducer: (state: any = {}) => state }, { diagnosticLevel: "silent" })!;
+  });
+
+  afterEach(async () => {
+    await store.dispose();
+  });
+
+  it('mounts every keyed instance at its own path', async () => {
+    const first = render(1), second = render(2);
+
+    await first.dispatch(rename("Ann"));
+    await second.dispatch(rename("Bob"));
+
+    const state = await stateOf(store);
+    expect(state["hero-details[1]"]).toEqual({ name: "Ann" });
+    expect(state["hero-details[2]"]).toEqual({ name: "Bob" });
+  });
+
+  it('scopes the actions dispatched by thunks to the instance', async () => {
+    const first = render(1);
+    render(2);
+
+    await first.dispatch(async (dispatch: Function) => await dispatch(rename("Ann")));
+
+    const state = await stateOf(store);
+    expect(state["hero-details[1]"]).toEqual({ name: "Ann" });
+    expect(state["hero-details[2]"]).toEqual({ name: "" });
+  });
+
+  it('resolves the selectors written for the slice name to the instance', async () => {
+    const first = render(1), second = render(2);
+    await first.dispatch(rename("Ann"));
+    await second.dispatch(rename("Bob"));
+
+    expect(await valueOf(first.select(featureSelector("hero-details")))).toEqual({ name: "Ann" });
+    expect(await valueOf(second.select(featureSelector("hero-details")))).toEqual({ name: "Bob" });
+  });
+
+  it('unloads only the destroyed instance', async () => {
+    const first = render(1);
+    render(2);
+    await first.dispatch(rename("Ann"));
+
+    first.ngOnDestroy();
+    await store.settled();
+
+    expect(store.inspect().modules).toEqual([{ slice: "hero-details[2]", references: 1 }]);
+    expect((await stateOf(store))["hero-details[1]"]).toBeUndefined();
+  });
+
+  it('writes the errors of loading the slice to the diagnostics without an error handler', async () => {
+    const error = spyOn(store.diagnostics, "error");
+    await store.dispose();
+
+    render(1);
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(error).toHaveBeenCalledOnceWith("module", "Error occurred while loading or unloading slice hero-details[1]: The store has been disposed.");
+  });
+});
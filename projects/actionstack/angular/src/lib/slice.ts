@@ -0,0 +1,203 @@
+import {
+  Action,
+  AsyncAction,
+  FeatureModule,
+  isAction,
+  Reducer,
+  SlicePath,
+  SliceStrategy,
+  Store,
+  StoreError,
+  toSlicePath,
+} from '@actioncrew/actionstack';
+import { ElementRef, ErrorHandler, inject, Injectable, Injector, OnDestroy } from '@angular/core';
+import { Observable } from 'rxjs/internal/Observable';
+import { map } from 'rxjs/internal/operators/map';
+import { Subscription } from 'rxjs/internal/Subscription';
+
+/**
+ * Interface defining configuration options for a Slice.
+ *
+ * The key identifies an instance of a component rendered several times. A keyed slice is mounted
+ * at its own path such as `hero-details[42]`, so the instances do not overwrite each other.
+ */
+export interface SliceOptions {
+  slice?: SlicePath;
+  key?: string | number;
+  reducer?: Reducer;
+  dependencies?: any;
+  strategy?: SliceStrategy;
+}
+
+/**
+ * A class representing a slice of state within an Actionstack application.
+ * A Slice instance provides methods for interacting with the Actionstack store to manage the state for a specific part of the application.
+ * The Slice attaches to the nearest store provided under the `Store` class. To attach it to a named store,
+ * provide `{ provide: Store, useExisting: TOKEN }` next to the Slice in the component providers.
+ *
+ * Actions dispatched through a keyed Slice carry the instance path in `meta.slice` and are ignored by the reducers
+ * of other instances. Selectors passed to a keyed Slice see the state of the instance at the path of the slice,
+ * so selectors written for the slice name resolve to the instance.
+ *
+ * @see {@link StoreModule} - for registering the Slice with the Actionstack store.
+ * @see {@link Store} - for interacting with the global Actionstack state.
+ * @see {@link Action} - for representing actions that can be dispatched to update the state.
+ * @see {@link Reducer} - for defining how the state is updated in response to an action.
+ * @see {@link Epic} - for handling side epics triggered by actions.
+ */
+@Injectable()
+export class Slice implements OnDestroy {
+  private opts: SliceOptions;
+  private module?: FeatureModule;
+  private subscription = Subscription.EMPTY;
+  private elRef!: ElementRef<HTMLElement>;
+
+  /**
+   * @param store - The Actionstack store instance.
+   * @param injector - The injector resolving the dependencies of the slice.
+   *
+   * @throws Error if ElementRef injection fails, indicating the Slice is used in the wrong context.
+   */
+  constructor(private store: Store, private injector: Injector) {
+    try {
+      this.elRef = inject(ElementRef);
+    } catch {
+      this.store.diagnostics.warn("module", 'Injection failed. The Slice is provided in the module providers list, but it is suitable to use within component provider list.')
+    }
+
+    this.opts = {
+      slice: this.elRef ? this.elRef.nativeElement.localName : "noname",
+      reducer: (state: any = {}, action: Action) => state,
+      dependencies: {},
+      strategy: "persistent"
+    };
+  }
+
+  /**
+   * Sets up the Slice with the provided options.
+   * The module of the slice is loaded once, so only the first call has an effect.
+   *
+   * @param opts - Configuration options for the Slice.
+   */
+  setup(opts: SliceOptions): void {
+    if (this.module) {
+      this.store.diagnostics.warn("module", `The slice ${toSlicePath(this.module.slice).join('.')} has already been set up. Each Slice instance can be set up only once.`);
+      return;
+    }
+
+    this.opts = Object.assign(this.opts, opts);
+    if (this.opts.slice !== undefined && this.opts.reducer) {
+      const reducer = this.opts.reducer, instance = this.instance;
+
+      this.module = {
+        slice: this.path!,
+        dependencies: this.opts.dependencies,
+        // Reducers of a keyed slice ignore the actions scoped to other instances
+        reducer: instance === undefined ? reducer : (state: any, action: Action) =>
+          action.meta?.slice !== undefined && action.meta.slice !== instance ? state : reducer(state, action)
+      };
+
+      this.store.loadModule(this.module, this.injector).catch(error => this.report(error));
+    }
+  }
+
+  /**
+   * Dispatches an action to update the state.
+   * Actions of a keyed slice, including the ones dispatched by thunks, are scoped to the instance.
+   *
+   * @param action - The action to dispatch.
+   * @returns A promise that resolves once the action is processed, or rejects with the errors rethrown by the store.
+   */
+  dispatch(action: Action | AsyncAction): Promise<void> {
+    return this.store.dispatch(this.scope(action));
+  }
+
+  /**
+   * Selects a portion of the state and returns an observable of that portion.
+   *
+   * @param selector - A function to apply to the observable of the state to derive a new observable.
+   * @param defaultValue - A default value to return if the selected portion of the state is undefined.
+   * @returns An observable of the selected portion of the state.
+   */
+  select<U = any, T = any>(selector: (obs: Observable<T>) => Observable<U>, defaultValue?: any): any {
+    return this.store.select((state$: Observable<T>, tracker?: any, reportError?: any) => (selector as Function)(state$.pipe(map(state => this.resolve(state))), tracker, reportError), defaultValue);
+  }
+
+  /**
+   * Cleans up resources when the Slice is destroyed.
+   */
+  ngOnDestroy(): void {
+    // Nothing is left to unload once the store is disposed
+    this.module && !this.store.disposed && this.store.unloadModule(this.module, this.opts.strategy === "temporary" ? true : false).catch(error => this.report(error));
+  }
+
+  /**
+   * Reports an error of loading or unloading the module of the slice to the Angular `ErrorHandler`.
+   * Errors the store has reported are already passed to it, except for the rethrown ones.
+   * Without an `ErrorHandler`, the error is written to the diagnostics of the store.
+   */
+  private report(error: any): void {
+    if (error instanceof StoreError && error.policy !== "rethrow") {
+      return;
+    }
+
+    const errorHandler = this.injector.get(ErrorHandler, null);
+    if (errorHandler) {
+      errorHandler.handleError(error);
+    } else {
+      this.store.diagnostics.error("module", `Error occurred while loading or unloading slice ${this.path!.join('.')}: ${error?.message ?? error}`);
+    }
+  }
+
+  /**
+   * The path the slice is mounted at, with the key of the instance appended to the last segment.
+   */
+  private get path(): string[] | undefined {
+    if (this.opts.slice === undefined) {
+      return undefined;
+    }
+
+    const path = toSlicePath(this.opts.slice);
+    if (this.opts.key !== undefined) {
+      path[path.length - 1] += `[${this.opts.key}]`;
+    }
+    return path;
+  }
+
+  /**
+   * The dotted path identifying the instance of a keyed slice.
+   */
+  private get instance(): string | undefined {
+    return this.opts.key !== undefined ? this.path!.join('.') : undefined;
+  }
+
+  /**
+   * Scopes an action, or the actions dispatched by a thunk, to the instance of a keyed slice.
+   */
+  private scope(action: Action | AsyncAction): Action | AsyncAction {
+    const instance = this.instance;
+    if (instance === undefined) {
+      return action;
+    } else if (typeof action === 'function') {
+      return (dispatch: Function, getState: Function, dependencies: any) =>
+        action((child: Action | AsyncAction) => dispatch(this.scope(child)), getState, dependencies);
+    } else if (isAction(action)) {
+      return { ...action, meta: { ...action.meta, slice: instance } };
+    }
+    return action;
+  }
+
+  /**
+   * Exposes the state of the instance of a keyed slice at the path of the slice.
+   */
+  private resolve(state: any): any {
+    if (this.instance === undefined || state === undefined || state === null) {
+      return state;
+    }
+
+    const base = toSlicePath(this.opts.slice!);
+    const value = this.path!.reduce((acc, key) => acc?.[key], state);
+    const mount = (target: any, [key, ...rest]: string[]): any => ({ ...target, [key]: rest.length ? mount(target?.[key], rest) : value });
+    return mount(state, base);
+  }
+}
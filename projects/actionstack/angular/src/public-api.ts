@@ -0,0 +1,8 @@
+/*
+ * Public API Surface of actionstack
+ */
+
+export * from "./lib";
+
+
+
@@ -1,15 +1,17 @@
 import {
   Action,
   action,
+  batch,
   ExecutionStack,
+  isGeneratorFunction,
   isAction,
   MainModule,
   Observer,
   Operation,
   Store,
-  STORE_ENHANCER,
   StoreEnhancer,
 } from '@actioncrew/actionstack';
+import { STORE_ENHANCER } from '@actioncrew/actionstack/angular';
 import { NgModule } from '@angular/core';
 import { Observable } from 'rxjs/internal/Observable';
 import { Subject } from 'rxjs/internal/Subject';
@@ -173,72 +175,102 @@ export function ofType(types: string | string[]): (source: Observable<Action<any
 
 /**
  * Creates middleware for handling epics.
+ * The same middleware can be applied to several stores, for example to the stores created for concurrent
+ * server-side requests. Every store keeps its own epics, keyed by its execution stack.
+ * The epics of a store are cancelled when the store is disposed.
  *
  * @returns {Function} - Middleware function for handling epics.
  */
 export const createEpicsMiddleware = () => {
-  let activeEpics: Epic[] = [];
-  let currentAction = new Subject<Action<any>>();
-  let currentState = new Subject<any>();
-  let subscriptions: Subscription[] = [];
+  const stores = new WeakMap<ExecutionStack, {
+    activeEpics: Epic[];
+    currentAction: Subject<Action<any>>;
+    currentState: Subject<any>;
+    subscriptions: Subscription[];
+  }>();
+
+  return ({ dispatch, getState, dependencies, strategy, stack, reportError, diagnostics }: any) => (next: any) => async (action: any) => {
+    // The state survives recomposing the middleware chain of the store
+    let state = stores.get(stack);
+    if (!state) {
+      state = { activeEpics: [], currentAction: new Subject<Action<any>>(), currentState: new Subject<any>(), subscriptions: [] };
+      stores.set(stack, state);
+    }
+    const { activeEpics, currentAction, currentState } = state;
 
-  return ({ dispatch, getState, dependencies, strategy, stack }: any) => (next: any) => async (action: any) => {
     // Proceed to the next action
     const result = await next(action);
 
-    if (action.type === 'ADD_EPICS' || action.type === 'REMOVE_EPICS') {
-      if (action.type === 'ADD_EPICS') {
-        action.payload.epics.forEach((epic: Epic) => {
-          if (!activeEpics.includes(epic)) {
-            activeEpics.push(epic);
-          }
-        });
-      } else if (action.type === 'REMOVE_EPICS') {
-        action.payload.epics.forEach((epic: Epic) => {
-          const epicIndex = activeEpics.indexOf(epic);
-          if (epicIndex !== -1) {
-            activeEpics.splice(epicIndex, 1);
+    // Epics receive the batched actions one by one
+    const actions = batch.match(action) ? action.payload.actions : [action];
+
+    // Cancel the running epics of a disposed store
+    if (action.type === 'STORE_DISPOSED') {
+      state.subscriptions.forEach(subscription => subscription.unsubscribe());
+      currentAction.complete();
+      currentState.complete();
+      stores.delete(stack);
+      return result;
+    }
+
+    for (const action of actions) {
+      if (action.type === 'ADD_EPICS' || action.type === 'REMOVE_EPICS') {
+        if (action.type === 'ADD_EPICS') {
+          action.payload.epics.forEach((epic: Epic) => {
+            if (!activeEpics.includes(epic)) {
+              activeEpics.push(epic);
+              diagnostics.debug("epic", `Epic ${epic.name || "anonymous"} has been added.`);
+            }
+          });
+        } else if (action.type === 'REMOVE_EPICS') {
+          action.payload.epics.forEach((epic: Epic) => {
+            const epicIndex = activeEpics.indexOf(epic);
+            if (epicIndex !== -1) {
+              activeEpics.splice(epicIndex, 1);
+              diagnostics.debug("epic", `Epic ${epic.name || "anonymous"} has been removed.`);
+            }
+          });
+        }
+
+        // Unsubscribe from the previous subscription if it exists
+        if (state.subscriptions.length) {
+          state.subscriptions[0].unsubscribe();
+          state.subscriptions.shift();
+        }
+
+        let subscription: Subscription;
+        // Create a new subscription
+        subscription = currentAction.pipe(
+          () => (strategy === "concurrent" ? merge : concat)(stack, ...activeEpics)(currentAction, currentState, dependencies())
+        ).subscribe({
+          next: (childAction: any) => {
+            if (isAction(childAction)) {
+              // The epic does not await the dispatch, so its errors are reported here
+              dispatch(childAction).catch((error: any) => reportError(error, "epic"));
+            }
+          },
+          error: (err: any) => {
+            reportError(err, "epic");
+            if (subscription) {
+              subscription.unsubscribe();
+              state!.subscriptions = state!.subscriptions.filter(item => item === subscription);
+            }
+          },
+          complete: () => {
+            if (subscription) {
+              subscription.unsubscribe();
+              state!.subscriptions = state!.subscriptions.filter(item => item === subscription);
+            }
           }
         });
-      }
 
-      // Unsubscribe from the previous subscription if it exists
-      if (subscriptions.length) {
-        subscriptions[0].unsubscribe();
-        subscriptions.shift();
+        state.subscriptions.push(subscription);
       }
 
-      let subscription: Subscription;
-      // Create a new subscription
-      subscription = currentAction.pipe(
-        () => (strategy === "concurrent" ? merge : concat)(stack, ...activeEpics)(currentAction, currentState, dependencies())
-      ).subscribe({
-        next: (childAction: any) => {
-          if (isAction(childAction)) {
-            dispatch(childAction);
-          }
-        },
-        error: (err: any) => {
-          console.warn("Error in epic:", err);
-          if (subscription) {
-            subscription.unsubscribe();
-            subscriptions = subscriptions.filter(item => item === subscription);
-          }
-        },
-        complete: () => {
-          if (subscription) {
-            subscription.unsubscribe();
-            subscriptions = subscriptions.filter(item => item === subscription);
-          }
-        }
-      });
-
-      subscriptions.push(subscription);
+      currentAction.next(action);
+      currentState.next(getState());
     }
 
-    currentAction.next(action);
-    currentState.next(getState());
-
     return result;
   };
 };
@@ -273,21 +305,34 @@ export const removeEpics = action("REMOVE_EPICS", (...epics: Epic[]) => ({ epics
 export const storeEnhancer: StoreEnhancer = (createStore) => (module: MainModule, enhancer?: StoreEnhancer): EpicStore => {
   const store = createStore(module, enhancer) as EpicStore;
 
+  // The store may already be extendable with other effects by another enhancer
+  const extend = (store as Partial<EpicStore>).extend?.bind(store);
+
   /**
    * Extends the store with the given epics.
+   * Generator functions are passed to the extend method of the enhancer applied before.
    *
    * @template U
    * @param {...Epic[]} args - The epics to be added to the store.
    * @returns {Observable<U>} - An observable that completes when the epics are removed.
    */
+  // The errors are reported on errors$ before dispatch rethrows them
+  const ignore = () => {};
+
   store.extend = <U>(...args: Epic[]): Observable<U> => {
+    const epics = extend ? args.filter(arg => !isGeneratorFunction(arg)) : args;
+    const others = args.filter(arg => !epics.includes(arg));
+    const others$: Observable<U> | undefined = others.length ? extend!(...others) : undefined;
+
     const effects$ = new Observable<U>((subscriber: Observer<U>) => {
+      const subscription = others$?.subscribe(subscriber);
       return () => {
-        store.dispatch(removeEpics(args));
+        subscription?.unsubscribe();
+        epics.length && !store.disposed && store.dispatch(removeEpics(...epics)).catch(ignore);
       }
     });
 
-    store.dispatch(addEpics(args));
+    epics.length && store.dispatch(addEpics(...epics)).catch(ignore);
     return effects$;
   };
 
@@ -320,7 +365,7 @@ export abstract class EpicStore extends Store {
     {
       provide: STORE_ENHANCER,
       useValue: storeEnhancer,
-      multi: false
+      multi: true
     },
     {
       provide: EpicStore,
@@ -1,75 +1,118 @@
 import {
   Action,
   action,
+  batch,
+  ErrorReporter,
+  ExecutionStack,
+  isGeneratorFunction,
   MainModule,
   Observer,
   Operation,
   Store,
-  STORE_ENHANCER,
   StoreEnhancer,
 } from '@actioncrew/actionstack';
+import { STORE_ENHANCER } from '@actioncrew/actionstack/angular';
 import { NgModule } from '@angular/core';
-import { runSaga, Saga, SagaMiddlewareOptions, stdChannel, Task } from 'redux-saga';
+import { MulticastChannel, runSaga, Saga, SagaMiddlewareOptions, stdChannel, Task } from 'redux-saga';
 import { call, cancelled } from 'redux-saga/effects';
 import { Observable } from 'rxjs/internal/Observable';
 
+/**
+ * Creates middleware for handling sagas.
+ * The same middleware can be applied to several stores, for example to the stores created for concurrent
+ * server-side requests. Every store runs its own sagas over its own channel, unless a channel is provided.
+ * The sagas of a store are cancelled when the store is disposed.
+ *
+ * @param {SagaMiddlewareOptions} options - Options passed to the sagas being run.
+ * @returns {Function} - Middleware function for handling sagas.
+ */
 export const createSagasMiddleware = ({
     context = {},
     sagaMonitor = undefined,
     onError = undefined,
     effectMiddlewares = [],
-    channel = stdChannel()
+    channel = undefined
   } : SagaMiddlewareOptions) => {
-  let activeSagas = new Map();
-  let middlewareDispatch: any;
-  let middlewareGetState: any;
-
-  const customDispatch = (dispatch: any) => (sagaOp: Operation) => (action: Action<any>) => {
+  const stores = new WeakMap<ExecutionStack, {
+    activeSagas: Map<Saga, Task>;
+    channel: MulticastChannel<Action<any>>;
+    dispatch?: any;
+    getState?: any;
+  }>();
+
+  const customDispatch = (dispatch: any, reportError: ErrorReporter) => (sagaOp: Operation) => (action: Action<any>) => {
     const actionWithSource = Object.assign({}, action, {source: sagaOp});
-    dispatch(actionWithSource);
+    // The put effect does not await the dispatch, so its errors are reported here
+    return dispatch(actionWithSource).catch((error: any) => { reportError(error, "saga"); });
   };
 
-  const sagaMiddleware = ({ dispatch, getState, dependencies, stack }: any) => (next: any) => async (action: Action<any>) => {
-    middlewareDispatch = dispatch; middlewareGetState = getState;
+  const sagaMiddleware = ({ dispatch, getState, dependencies, stack, reportError, diagnostics }: any) => (next: any) => async (action: Action<any>) => {
+    // The state survives recomposing the middleware chain of the store
+    let state = stores.get(stack);
+    if (!state) {
+      state = { activeSagas: new Map(), channel: channel ?? stdChannel() };
+      stores.set(stack, state);
+    }
+    state.dispatch = dispatch; state.getState = getState;
+    const { activeSagas } = state;
 
     // Proceed to the next action
     const result = await next(action);
 
-    channel.put(action);
+    // Cancel the running sagas of a disposed store
+    if (action.type === 'STORE_DISPOSED') {
+      activeSagas.forEach(task => task.cancel());
+      channel === undefined && state.channel.close();
+      stores.delete(stack);
+      return result;
+    }
 
-    if (action.type === 'ADD_SAGAS' || action.type === 'REMOVE_SAGAS') {
-      if (action.type === 'ADD_SAGAS') {
-        action.payload.sagas.forEach((saga: Saga) => {
-          if (!activeSagas.has(saga)) {
-            if (typeof saga !== 'function') {
-              throw new Error('saga argument must be a Generator function!');
-            }
+    // Sagas receive the batched actions one by one
+    const actions = batch.match(action) ? action.payload.actions : [action];
 
-            const op = Operation.saga(saga);
-            const task: Task = runSaga({ context, channel, dispatch: customDispatch(middlewareDispatch)(op), getState: middlewareGetState }, (function*(): Generator<any, void, any> {
-              try {
-                stack.push(op); Object.assign(context, dependencies());
-                yield call(saga);
-              } catch (error) {
-                console.error('Saga error:', error);
-              } finally {
-                stack.pop(op);
-                if (yield cancelled()) {
-                  return;
-                }
+    for (const action of actions) {
+      state.channel.put(action);
+
+      if (action.type === 'ADD_SAGAS' || action.type === 'REMOVE_SAGAS') {
+        if (action.type === 'ADD_SAGAS') {
+          action.payload.sagas.forEach((saga: Saga) => {
+            if (!activeSagas.has(saga)) {
+              if (typeof saga !== 'function') {
+                throw new Error('saga argument must be a Generator function!');
               }
-            }));
-            activeSagas.set(saga, task);
-          }
-        });
-      } else if (action.type === 'REMOVE_SAGAS') {
-        action.payload.sagas.forEach((saga: any) => {
-          const task = activeSagas.get(saga);
-          if (task) {
-            task.cancel();
-            activeSagas.delete(saga);
-          }
-        });
+
+              const op = Operation.saga(saga);
+              const task: Task = runSaga({ context, channel: state!.channel, dispatch: customDispatch(state!.dispatch, reportError)(op), getState: state!.getState }, (function*(): Generator<any, void, any> {
+                try {
+                  stack.add(op); Object.assign(context, dependencies());
+                  yield call(saga);
+                } catch (error) {
+                  // Rethrown errors are passed on to redux-saga, which aborts the saga with them
+                  const storeError = reportError(error, "saga");
+                  if (storeError.policy === "rethrow") {
+                    throw storeError;
+                  }
+                } finally {
+                  stack.remove(op);
+                  if (yield cancelled()) {
+                    return;
+                  }
+                }
+              }));
+              activeSagas.set(saga, task);
+              diagnostics.debug("saga", `Saga ${saga.name || "anonymous"} has been started.`);
+            }
+          });
+        } else if (action.type === 'REMOVE_SAGAS') {
+          action.payload.sagas.forEach((saga: any) => {
+            const task = activeSagas.get(saga);
+            if (task) {
+              task.cancel();
+              activeSagas.delete(saga);
+              diagnostics.debug("saga", `Saga ${saga.name || "anonymous"} has been cancelled.`);
+            }
+          });
+        }
       }
     }
 
@@ -95,21 +138,34 @@ export const removeSagas = action('REMOVE_SAGAS', (...sagas: any[]) => ({sagas})
 export const storeEnhancer: StoreEnhancer = (createStore) => (module: MainModule, enhancer?: StoreEnhancer): SagaStore => {
   const store = createStore(module, enhancer) as SagaStore;
 
+  // The store may already be extendable with other effects by another enhancer
+  const extend = (store as Partial<SagaStore>).extend?.bind(store);
+
   /**
    * Extends the store with the given sagas.
+   * Other effects are passed to the extend method of the enhancer applied before.
    *
    * @template U
    * @param {...Saga[]} args - The sagas to be added to the store.
    * @returns {Observable<U>} - An observable that completes when the sagas are removed.
    */
+  // The errors are reported on errors$ before dispatch rethrows them
+  const ignore = () => {};
+
   store.extend = <U>(...args: Saga[]): Observable<U> => {
+    const sagas = extend ? args.filter(isGeneratorFunction) : args;
+    const others = args.filter(arg => !sagas.includes(arg));
+    const others$: Observable<U> | undefined = others.length ? extend!(...others) : undefined;
+
     const effects$ = new Observable<U>((subscriber: Observer<U>) => {
+      const subscription = others$?.subscribe(subscriber);
       return () => {
-        store.dispatch(removeSagas(args));
+        subscription?.unsubscribe();
+        sagas.length && !store.disposed && store.dispatch(removeSagas(...sagas)).catch(ignore);
       }
     });
 
-    store.dispatch(addSagas(args));
+    sagas.length && store.dispatch(addSagas(...sagas)).catch(ignore);
     return effects$;
   };
 
@@ -142,11 +198,11 @@ export abstract class SagaStore extends Store {
     {
       provide: STORE_ENHANCER,
       useValue: storeEnhancer,
-      multi: false
+      multi: true
     },
     {
       provide: SagaStore,
-      useValue: Store,
+      useFactory: (store: Store) => store,
       deps: [Store]
     }
   ]
@@ -0,0 +1,89 @@
+import { action, batch } from './actions';
+import { Action, AsyncAction, TypedAction } from './types';
+
+/**
+ * Resolves to true only if both types are identical.
+ */
+type Equals<T, U> = (<V>() => V extends T ? 1 : 2) extends (<V>() => V extends U ? 1 : 2) ? true : false;
+
+/**
+ * Compiles only if the type argument is true.
+ */
+const assertType = <T extends true>() => {};
+
+describe('action', () => {
+  it('infers the literal type and the optional payload of a plain action creator', () => {
+    const reset = action("RESET");
+
+    assertType<Equals<typeof reset.type, "RESET">>();
+    assertType<Equals<ReturnType<typeof reset>, TypedAction<"RESET", any>>>();
+    assertType<Equals<Parameters<typeof reset>, [payload?: any]>>();
+
+    expect<Action>(reset()).toEqual({ type: "RESET" });
+    expect(reset(1)).toEqual({ type: "RESET", payload: 1 });
+  });
+
+  it('infers the arguments and the payload from the payload creator', () => {
+    const add = action("ADD", (amount: number, label?: string) => ({ amount, label }));
+
+    assertType<Equals<Parameters<typeof add>, [amount: number, label?: string]>>();
+    assertType<Equals<ReturnType<typeof add>, TypedAction<"ADD", { amount: number, label: string | undefined }>>>();
+
+    // @ts-expect-error The amount is required
+    add();
+    // @ts-expect-error The amount must be a number
+    add("1");
+    // @ts-expect-error The payload creator takes at most two arguments
+    add(1, "one", true);
+
+    expect(add(1, "one")).toEqual({ type: "ADD", payload: { amount: 1, label: "one" } });
+  });
+
+  it('narrows actions with match', () => {
+    const add = action("ADD", (amount: number) => ({ amount }));
+    const received: TypedAction<string, unknown> = add(2);
+
+    if (add.match(received)) {
+      assertType<Equals<typeof received.payload, { amount: number }>>();
+      expect(received.payload.amount).toBe(2);
+    } else {
+      fail("The action should match its creator");
+    }
+
+    // @ts-expect-error The payload is unknown until the action is narrowed
+    received.payload.amount;
+
+    expect(add.match({ type: "REMOVE" })).toBeFalse();
+  });
+
+  it('infers the arguments of thunk creators', async () => {
+    const load = action((id: number) => async (dispatch: Function) => { await dispatch({ type: "LOADED", payload: id }); });
+
+    assertType<Equals<Parameters<typeof load>, [id: number]>>();
+    assertType<Equals<ReturnType<typeof load>, AsyncAction<any>>>();
+
+    // @ts-expect-error The id must be a number
+    load("1");
+
+    const dispatched: any[] = [];
+    await load(1)((dispatched.push).bind(dispatched), () => ({}), {});
+    expect(dispatched).toEqual([{ type: "LOADED", payload: 1 }]);
+  });
+
+  it('keeps primitive payloads returned by the payload creator', () => {
+    const select = action("SELECT", (id: number) => id);
+
+    assertType<Equals<ReturnType<typeof select>, TypedAction<"SELECT", number>>>();
+    expect(select(42)).toEqual({ type: "SELECT", payload: 42 });
+  });
+
+  it('copies meta and error returned by the payload creator', () => {
+    const failed = action("FAILED", (reason: string) => ({ reason, error: true, meta: { retry: true } }));
+    expect(failed("timeout")).toEqual({ type: "FAILED", payload: { reason: "timeout", error: true, meta: { retry: true } }, error: true, meta: { retry: true } });
+  });
+
+  it('batches plain actions', () => {
+    const add = action("ADD", (amount: number) => ({ amount }));
+    expect(batch(add(1), add(2))).toEqual({ type: "BATCH", payload: { actions: [add(1), add(2)] } });
+  });
+});
@@ -1,4 +1,5 @@
-import { Action, isAction, kindOf } from './types';
+import { defaultDiagnostics } from './diagnostics';
+import { Action, isAction, kindOf, ThunkActionCreator, TypedActionCreator } from './types';
 
 export { createAction as action };
 
@@ -15,7 +16,14 @@ export { createAction as action };
  * Additionally, it can have a `payload` property if a `payloadCreator` function is provided
  * or if arguments are passed to the action creator function itself.
  * It can also have optional `meta` and `error` properties included in the payload object.
+ *
+ * The overloads infer the literal action type, the arguments of the action creator and the payload type
+ * from the provided parameters, so dispatched actions and `match` checks stay fully typed.
  */
+function createAction<T extends string>(type: T): TypedActionCreator<T, any, [payload?: any]>;
+function createAction<T extends string, F extends (...args: any[]) => any>(type: T, payloadCreator: F): TypedActionCreator<T, ReturnType<F>, Parameters<F>>;
+function createAction<T extends string>(type: T, payloadCreator?: Function): TypedActionCreator<T>;
+function createAction<F extends (...args: any[]) => (dispatch: Function, getState: Function, dependencies: any) => any>(thunk: F): ThunkActionCreator<Parameters<F>>;
 function createAction(typeOrThunk: string | Function, payloadCreator?: Function): any {
   function actionCreator(...args: any[]) {
     let action: Action = {
@@ -23,24 +31,22 @@ function createAction(typeOrThunk: string | Function, payloadCreator?: Function)
     };
 
     if (typeof typeOrThunk === 'function') {
-      return async (dispatch: Function, getState: Function, dependencies: any) => {
-        try {
-          return await typeOrThunk(...args)(dispatch, getState, dependencies);
-        } catch (error: any) {
-          console.warn(`Error in action: ${error.message}. If dependencies object provided does not contain required property, it is possible that the slice name obtained from the tag name does not match the one declared in the slice file.`);
-        }
-      }
+      // Errors are reported by the store processing the thunk
+      return async (dispatch: Function, getState: Function, dependencies: any) => await typeOrThunk(...args)(dispatch, getState, dependencies);
     } else if (payloadCreator) {
       let result = payloadCreator(...args);
       if (result === undefined || result === null) {
-        console.warn('payloadCreator did not return an object. Did you forget to initialize an action with params?');
+        defaultDiagnostics.warn("store", 'payloadCreator did not return an object. Did you forget to initialize an action with params?');
       }
 
       // Do not return payload if it is undefined
       if (result !== undefined && result !== null) {
         action.payload = result;
-        'meta' in result && (action.meta = result.meta);
-        'error' in result && (action.error = result.error);
+        // Primitive payloads carry neither meta nor error
+        if (typeof result === 'object') {
+          'meta' in result && (action.meta = result.meta);
+          'error' in result && (action.error = result.error);
+        }
       }
     }
     else {
@@ -60,6 +66,16 @@ function createAction(typeOrThunk: string | Function, payloadCreator?: Function)
   return actionCreator;
 }
 
+/**
+ * Action creator grouping several actions into a single dispatch.
+ *
+ * The batched actions are passed through the middleware as one entry and reduced one after another,
+ * while the state is committed and emitted only once. Only plain actions can be batched.
+ *
+ * @param {...Action[]} actions - The actions to batch.
+ */
+export const batch = createAction("BATCH", (...actions: Action[]) => ({ actions }));
+
 /**
  * Binds an action creator to the dispatch function.
  *
@@ -95,7 +111,7 @@ export function bindActionCreator(actionCreator: Function, dispatch: Function):
  */
 export function bindActionCreators(actionCreators: any, dispatch: Function): any {
   if (typeof actionCreators !== "object" || actionCreators === null) {
-    console.warn(`bindActionCreators expected an object or a function, but instead received: '${kindOf(actionCreators)}'. Did you write "import ActionCreators from" instead of "import * as ActionCreators from"?`);
+    defaultDiagnostics.warn("store", `bindActionCreators expected an object or a function, but instead received: '${kindOf(actionCreators)}'. Did you write "import ActionCreators from" instead of "import * as ActionCreators from"?`);
     return undefined;
   }
 
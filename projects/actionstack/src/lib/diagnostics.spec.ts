@@ -0,0 +1,67 @@
+import { Diagnostic, Diagnostics } from './diagnostics';
+import { createStore } from './store';
+
+describe('Diagnostics', () => {
+  let written: Diagnostic[];
+  const sink = (diagnostic: Diagnostic) => written.push(diagnostic);
+
+  beforeEach(() => {
+    written = [];
+  });
+
+  it('writes the diagnostics to the sink', () => {
+    const diagnostics = new Diagnostics({ diagnosticLevel: "debug", diagnosticSink: sink });
+
+    diagnostics.warn("store", "Message", 1, 2);
+    expect(written).toEqual([{ level: "warn", category: "store", message: "Message", data: [1, 2] }]);
+  });
+
+  it('filters out the diagnostics less severe than the level', () => {
+    const diagnostics = new Diagnostics({ diagnosticLevel: "warn", diagnosticSink: sink });
+
+    diagnostics.debug("store", "debug");
+    diagnostics.info("store", "info");
+    diagnostics.warn("store", "warn");
+    diagnostics.error("store", "error");
+    expect(written.map(diagnostic => diagnostic.message)).toEqual(["warn", "error"]);
+  });
+
+  it('writes nothing at the silent level', () => {
+    const diagnostics = new Diagnostics({ diagnosticLevel: "silent", diagnosticSink: sink });
+
+    diagnostics.error("store", "error");
+    expect(written).toEqual([]);
+  });
+
+  it('writes only the configured categories', () => {
+    const diagnostics = new Diagnostics({ diagnosticLevel: "debug", diagnosticCategories: ["tools", "reducer"], diagnosticSink: sink });
+
+    diagnostics.warn("store", "store");
+    diagnostics.warn("tools", "tools");
+    diagnostics.warn("reducer", "reducer");
+    expect(written.map(diagnostic => diagnostic.category)).toEqual(["tools", "reducer"]);
+  });
+
+  it('changes the options on configure', () => {
+    const diagnostics = new Diagnostics({ diagnosticLevel: "silent", diagnosticSink: () => {} });
+
+    diagnostics.configure({ diagnosticLevel: "info", diagnosticSink: sink });
+    diagnostics.info("module", "info");
+    expect(written.map(diagnostic => diagnostic.message)).toEqual(["info"]);
+  });
+
+  it('ignores a failing sink', () => {
+    const diagnostics = new Diagnostics({ diagnosticLevel: "debug", diagnosticSink: () => { throw new Error("Failed"); } });
+
+    expect(() => diagnostics.error("store", "error")).not.toThrow();
+  });
+
+  it('is configured by the settings of the store', async () => {
+    const store = createStore({ slice: "main", reducer: (state: number = 0) => state }, { diagnosticLevel: "info", diagnosticCategories: ["store"], diagnosticSink: sink })!;
+    await store.dispose();
+
+    expect(written.length).toBeGreaterThan(0);
+    expect(written.every(diagnostic => diagnostic.category === "store" && diagnostic.level !== "debug")).toBeTrue();
+    expect(written[0].message).toContain("You are using ActionStack");
+  });
+});
@@ -0,0 +1,132 @@
+import { ErrorOrigin } from './errors';
+
+/**
+ * Type alias for the severity of a diagnostic, from the least to the most severe.
+ */
+export type DiagnosticLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Type alias for the part of the library a diagnostic comes from.
+ * Errors are reported under the category named after their origin.
+ */
+export type DiagnosticCategory = ErrorOrigin | "store" | "module" | "tools";
+
+/**
+ * Interface describing a single diagnostic message.
+ *
+ * @property level - The severity of the diagnostic.
+ * @property category - The part of the library the diagnostic comes from.
+ * @property message - The message, which may contain console format specifiers such as `%c`.
+ * @property data - Additional values passed along with the message.
+ */
+export interface Diagnostic {
+  level: DiagnosticLevel;
+  category: DiagnosticCategory;
+  message: string;
+  data: any[];
+}
+
+/**
+ * Type alias for a function receiving the diagnostics that pass the configured level and categories.
+ */
+export type DiagnosticSink = (diagnostic: Diagnostic) => void;
+
+/**
+ * Interface describing how diagnostics are filtered and where they are written to.
+ *
+ * @property diagnosticLevel - The least severe level written, or `silent` to write nothing.
+ * @property diagnosticCategories - The categories written. All categories are written if omitted.
+ * @property diagnosticSink - The function the diagnostics are written to.
+ */
+export interface DiagnosticOptions {
+  diagnosticLevel: DiagnosticLevel | "silent";
+  diagnosticCategories?: DiagnosticCategory[];
+  diagnosticSink: DiagnosticSink;
+}
+
+/**
+ * Sink writing the diagnostics to the console method matching their level.
+ */
+export const consoleSink: DiagnosticSink = ({ level, message, data }) => console[level](message, ...data);
+
+/**
+ * Severities of the levels, used to filter the diagnostics.
+ */
+const severities: Record<DiagnosticLevel | "silent", number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+/**
+ * Class writing diagnostics to the configured sink.
+ *
+ * Every store has its own instance configured by its settings. It is passed to the middleware
+ * as `diagnostics`, so effects and tools write to the same sink as the store they are applied to.
+ */
+export class Diagnostics {
+  /**
+   * Creates a new diagnostics instance.
+   * @param {DiagnosticOptions} options - The level, the categories and the sink of the diagnostics.
+   */
+  constructor(private options: DiagnosticOptions) {}
+
+  /**
+   * Changes some of the options of the diagnostics.
+   * @param {Partial<DiagnosticOptions>} options - The options to change.
+   */
+  configure(options: Partial<DiagnosticOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Writes a diagnostic, unless it is filtered out by its level or category.
+   * @param {DiagnosticLevel} level - The severity of the diagnostic.
+   * @param {DiagnosticCategory} category - The part of the library the diagnostic comes from.
+   * @param {string} message - The message.
+   * @param {...any[]} data - Additional values passed along with the message.
+   */
+  write(level: DiagnosticLevel, category: DiagnosticCategory, message: string, ...data: any[]): void {
+    const { diagnosticLevel, diagnosticCategories, diagnosticSink } = this.options;
+    if (severities[level] < severities[diagnosticLevel] || diagnosticCategories && !diagnosticCategories.includes(category)) {
+      return;
+    }
+
+    try {
+      diagnosticSink({ level, category, message, data });
+    } catch {
+      // A failing sink must not break the store
+    }
+  }
+
+  /**
+   * Writes a diagnostic at the `debug` level.
+   */
+  debug(category: DiagnosticCategory, message: string, ...data: any[]): void {
+    this.write("debug", category, message, ...data);
+  }
+
+  /**
+   * Writes a diagnostic at the `info` level.
+   */
+  info(category: DiagnosticCategory, message: string, ...data: any[]): void {
+    this.write("info", category, message, ...data);
+  }
+
+  /**
+   * Writes a diagnostic at the `warn` level.
+   */
+  warn(category: DiagnosticCategory, message: string, ...data: any[]): void {
+    this.write("warn", category, message, ...data);
+  }
+
+  /**
+   * Writes a diagnostic at the `error` level.
+   */
+  error(category: DiagnosticCategory, message: string, ...data: any[]): void {
+    this.write("error", category, message, ...data);
+  }
+}
+
+/**
+ * Diagnostics of the parts of the library working without a store, such as action creators,
+ * selectors applied outside of a store and the composition of store enhancers.
+ * Its level, categories and sink can be changed with `configure`.
+ */
+export const defaultDiagnostics = new Diagnostics({ diagnosticLevel: "info", diagnosticSink: consoleSink });
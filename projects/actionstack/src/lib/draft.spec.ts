@@ -0,0 +1,69 @@
+import { action } from './actions';
+import { createDraftReducer, isDraft, produce } from './draft';
+
+describe('produce', () => {
+  const base = { todos: [{ id: 1, done: false }, { id: 2, done: false }], filter: { done: false } };
+
+  it('copies only the changed branches', () => {
+    const next = produce(base, draft => {
+      draft.todos[1].done = true;
+    });
+
+    expect(next.todos[1]).toEqual({ id: 2, done: true });
+    expect(next.todos[0]).toBe(base.todos[0]);
+    expect(next.filter).toBe(base.filter);
+    expect(base.todos[1].done).toBeFalse();
+  });
+
+  it('returns the base state if nothing has changed', () => {
+    expect(produce(base, draft => { draft.filter.done = false; })).toBe(base);
+  });
+
+  it('uses the value returned by the recipe as the next state', () => {
+    expect(produce(base, () => ({ ...base, filter: { done: true } })).filter.done).toBeTrue();
+  });
+
+  it('supports async recipes', async () => {
+    const next = await produce(base, async draft => {
+      await Promise.resolve();
+      draft.todos.push({ id: 3, done: false });
+    });
+
+    expect(next.todos.length).toBe(3);
+    expect(next.filter).toBe(base.filter);
+  });
+
+  it('does not leak drafts into the next state', () => {
+    const next = produce(base, draft => {
+      draft.filter = { ...draft.filter, done: true };
+      (draft as any).first = draft.todos[0];
+    });
+
+    expect(isDraft(next.filter)).toBeFalse();
+    expect(isDraft((next as any).first)).toBeFalse();
+    expect((next as any).first).toBe(base.todos[0]);
+  });
+});
+
+describe('createDraftReducer', () => {
+  const add = action("ADD", (text: string) => text);
+  const reducer = createDraftReducer({ items: [] as string[], count: 0 }, (draft, action) => {
+    if (add.match(action)) {
+      draft.items.push(action.payload);
+      draft.count++;
+    }
+  });
+
+  it('starts from the initial state and mutates the draft', async () => {
+    const initial = await reducer(undefined, { type: "INIT" });
+    const next = await reducer(initial, add("a"));
+
+    expect(initial).toEqual({ items: [], count: 0 });
+    expect(next).toEqual({ items: ["a"], count: 1 });
+  });
+
+  it('keeps the state of unhandled actions', async () => {
+    const state = { items: ["a"], count: 1 };
+    expect(await reducer(state, { type: "OTHER" })).toBe(state);
+  });
+});
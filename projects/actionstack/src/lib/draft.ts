@@ -0,0 +1,220 @@
+import { Action, isPlainObject, isPromise, Reducer } from './types';
+
+/**
+ * Key under which a draft exposes its internal state.
+ */
+const DRAFT_STATE = Symbol("draft");
+
+/**
+ * Interface describing the internal state of a draft.
+ *
+ * @property base - The original value the draft was created for.
+ * @property copy - The shallow copy receiving the changes, created on the first change.
+ * @property parent - The state of the parent draft, notified about the changes.
+ * @property modified - Whether the draft or any of its children has been changed.
+ * @property revoke - Function revoking the proxy once the draft is finalized.
+ */
+interface DraftState {
+  base: any;
+  copy?: any;
+  parent?: DraftState;
+  modified: boolean;
+  revoke: () => void;
+}
+
+/**
+ * Type alias for a recipe mutating a draft.
+ * The recipe may also return a value replacing the state.
+ */
+export type Recipe<T> = (draft: T) => void | T | Promise<void | T>;
+
+/**
+ * Checks whether a value can be drafted.
+ */
+function isDraftable(value: any): boolean {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+/**
+ * Checks whether a value is a draft.
+ *
+ * @param {any} value - The value to check.
+ * @returns {boolean} True if the value is a draft.
+ */
+export function isDraft(value: any): boolean {
+  return !!value && typeof value === "object" && value[DRAFT_STATE] !== undefined;
+}
+
+/**
+ * Returns the current values of the draft, the copy if it was changed or the base otherwise.
+ */
+function source(state: DraftState): any {
+  return state.copy ?? state.base;
+}
+
+/**
+ * Marks the draft and all its parents as modified, copying their base values.
+ */
+function markChanged(state: DraftState): void {
+  if (!state.modified) {
+    state.modified = true;
+    state.copy = state.copy ?? (Array.isArray(state.base) ? [...state.base] : { ...state.base });
+    state.parent && markChanged(state.parent);
+  }
+}
+
+/**
+ * Creates a copy-on-write proxy for the value.
+ */
+function createDraft(base: any, drafts: DraftState[], parent?: DraftState): any {
+  const state: DraftState = { base, parent, modified: false, revoke: () => {} };
+
+  const { proxy, revoke } = Proxy.revocable<any>(Array.isArray(base) ? [] : {}, {
+    get(target, prop) {
+      if (prop === DRAFT_STATE) {
+        return state;
+      }
+
+      const value = source(state)[prop];
+      if (!isDraftable(value) || !Object.prototype.hasOwnProperty.call(source(state), prop) || value !== state.base[prop]) {
+        return value;
+      }
+
+      // Nested values are drafted lazily on first access
+      state.copy = state.copy ?? (Array.isArray(base) ? [...base] : { ...base });
+      return state.copy[prop] = createDraft(value, drafts, state);
+    },
+    set(target, prop, value) {
+      const current = source(state);
+      if (Object.prototype.hasOwnProperty.call(current, prop) && Object.is(current[prop], value)) {
+        return true;
+      }
+      markChanged(state);
+      state.copy[prop] = value;
+      return true;
+    },
+    deleteProperty(target, prop) {
+      if (Object.prototype.hasOwnProperty.call(source(state), prop)) {
+        markChanged(state);
+        delete state.copy[prop];
+      }
+      return true;
+    },
+    has(target, prop) {
+      return prop in source(state);
+    },
+    ownKeys() {
+      return Reflect.ownKeys(source(state));
+    },
+    getOwnPropertyDescriptor(target, prop) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(source(state), prop);
+      return descriptor && {
+        value: this.get!(target, prop, proxy),
+        writable: true,
+        enumerable: descriptor.enumerable,
+        configurable: !(Array.isArray(base) && prop === "length")
+      };
+    },
+    defineProperty() {
+      throw new Error("Defining properties on drafts is not supported");
+    },
+    setPrototypeOf() {
+      throw new Error("Changing the prototype of drafts is not supported");
+    }
+  });
+
+  state.revoke = revoke;
+  drafts.push(state);
+  return proxy;
+}
+
+/**
+ * Turns a value possibly containing drafts into a plain value.
+ * Unmodified drafts resolve to their base values, so unchanged branches keep their identity.
+ */
+function finalize(value: any, visited: Set<any> = new Set()): any {
+  if (isDraft(value)) {
+    const state: DraftState = value[DRAFT_STATE];
+    if (!state.modified) {
+      return state.base;
+    }
+    const copy = state.copy;
+    for (const key of Object.keys(copy)) {
+      if (copy[key] !== state.base[key]) {
+        copy[key] = finalize(copy[key], visited);
+      }
+    }
+    return copy;
+  }
+
+  // Values assigned during the recipe may contain drafts as well
+  if (isDraftable(value) && !Object.isFrozen(value) && !visited.has(value)) {
+    visited.add(value);
+    for (const key of Object.keys(value)) {
+      const finalized = finalize(value[key], visited);
+      if (finalized !== value[key]) {
+        value[key] = finalized;
+      }
+    }
+  }
+  return value;
+}
+
+/**
+ * Produces the next state by applying a recipe to a draft of the base state.
+ *
+ * The recipe mutates the draft as if it was a regular object. Only the branches that have been changed are copied,
+ * all other branches keep their identity, and the base state itself is returned if nothing has changed.
+ * If the recipe returns a value other than undefined, that value becomes the next state.
+ * Async recipes are supported, in which case a promise of the next state is returned.
+ *
+ * @param {T} base - The base state.
+ * @param {Recipe<T>} recipe - The function mutating the draft.
+ * @returns {T | Promise<T>} The next state, or a promise of it for async recipes.
+ */
+export function produce<T>(base: T, recipe: (draft: T) => void | T): T;
+export function produce<T>(base: T, recipe: (draft: T) => Promise<void | T>): Promise<T>;
+export function produce<T>(base: T, recipe: Recipe<T>): T | Promise<T>;
+export function produce<T>(base: T, recipe: Recipe<T>): T | Promise<T> {
+  const drafts: DraftState[] = [];
+  const draft = isDraftable(base) ? createDraft(base, drafts) : base;
+
+  const complete = (result: void | T): T => {
+    try {
+      return finalize(result === undefined || result === draft ? draft : result);
+    } finally {
+      drafts.forEach(state => state.revoke());
+    }
+  };
+
+  let result: void | T | Promise<void | T>;
+  try {
+    result = recipe(draft);
+  } catch (error) {
+    drafts.forEach(state => state.revoke());
+    throw error;
+  }
+
+  if (isPromise(result)) {
+    return (result as Promise<void | T>).then(complete, (error: any) => {
+      drafts.forEach(state => state.revoke());
+      throw error;
+    });
+  }
+  return complete(result as void | T);
+}
+
+/**
+ * Creates a reducer that mutates a draft of its state.
+ *
+ * The reducer function receives a draft of the state and the action, and either mutates the draft or returns the next state.
+ * The store receives a structurally shared state, so unchanged slices are not updated and their selectors are not re-evaluated.
+ * The reducer function may be async.
+ *
+ * @param {S} initialState - The initial state of the reducer.
+ * @param {(draft: S, action: Action) => void | S | Promise<void | S>} reducer - The reducer function working with the draft.
+ * @returns {Reducer} The reducer function.
+ */
+export function createDraftReducer<S>(initialState: S, reducer: (draft: S, action: Action) => void | S | Promise<void | S>): Reducer {
+  return (state: S = initialState, action: Action) => produce(state, (draft: S) => reducer(draft, action));
+}
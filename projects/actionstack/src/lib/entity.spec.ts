@@ -0,0 +1,61 @@
+import { entityAdapter, EntityState } from './entity';
+
+interface Hero {
+  id: number;
+  name: string;
+  power?: string;
+}
+
+describe('entityAdapter', () => {
+  const adapter = entityAdapter<Hero>();
+  const initial = adapter.addMany(adapter.getInitialState(), [{ id: 1, name: "Ann" }, { id: 2, name: "Bob" }, { id: 3, name: "Cid" }]);
+
+  it('adds only the entities that are not stored yet', () => {
+    const state = adapter.addMany(initial, [{ id: 2, name: "Other" }, { id: 4, name: "Dan" }]);
+
+    expect(state.ids).toEqual([1, 2, 3, 4]);
+    expect(state.entities[2].name).toBe("Bob");
+    expect(adapter.addOne(state, { id: 4, name: "Other" })).toBe(state);
+  });
+
+  it('merges upserted entities into the stored ones', () => {
+    const state = adapter.upsertMany(initial, [{ id: 1, name: "Ann", power: "flight" }, { id: 4, name: "Dan" }]);
+
+    expect(state.entities[1]).toEqual({ id: 1, name: "Ann", power: "flight" });
+    expect(state.ids).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps the ids sorted by the comparer', () => {
+    const sorted = entityAdapter<Hero>({ sortComparer: (a, b) => a.name.localeCompare(b.name) });
+    const state = sorted.addMany(sorted.getInitialState(), [{ id: 1, name: "Cid" }, { id: 2, name: "Ann" }]);
+
+    expect(state.ids).toEqual([2, 1]);
+    expect(sorted.updateOne(state, { id: 2, changes: { name: "Dan" } }).ids).toEqual([1, 2]);
+  });
+
+  it('moves an entity whose id is changed by an update', () => {
+    const state = adapter.updateOne(initial, { id: 2, changes: { id: 5 } });
+
+    expect(state.ids).toEqual([1, 5, 3]);
+    expect(state.entities[5]).toEqual({ id: 5, name: "Bob" });
+    expect(state.entities[2]).toBeUndefined();
+  });
+
+  it('merges an entity into the one stored under its new id', () => {
+    const state: EntityState<Hero> = adapter.updateMany(initial, [
+      { id: 1, changes: { power: "flight" } },
+      { id: 3, changes: { id: 1, name: "Cid" } }
+    ]);
+
+    expect(state.ids).toEqual([1, 2]);
+    expect(state.entities[1]).toEqual({ id: 1, name: "Cid", power: "flight" });
+    expect(state.entities[3]).toBeUndefined();
+  });
+
+  it('returns the same state when nothing changes', () => {
+    expect(adapter.updateOne(initial, { id: 9, changes: { name: "None" } })).toBe(initial);
+    expect(adapter.removeMany(initial, [9])).toBe(initial);
+    const empty = adapter.getInitialState();
+    expect(adapter.removeAll(empty)).toBe(empty);
+  });
+});
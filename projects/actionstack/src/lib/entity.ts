@@ -0,0 +1,183 @@
+import { Observable } from 'rxjs/internal/Observable';
+
+import { ErrorReporter } from './errors';
+import { selector } from './selectors';
+import { Tracker } from './tracker';
+
+export { createEntityAdapter as entityAdapter };
+
+/**
+ * Type alias for the identifier of an entity.
+ */
+export type EntityId = string | number;
+
+/**
+ * Interface defining the normalized state of an entity collection.
+ *
+ * @property ids - Identifiers of the entities, in sorted order if a comparator is provided.
+ * @property entities - Entities keyed by their identifiers.
+ */
+export interface EntityState<T> {
+  ids: EntityId[];
+  entities: Record<EntityId, T>;
+}
+
+/**
+ * Interface defining a partial update of an entity.
+ *
+ * @property id - The identifier of the entity to update.
+ * @property changes - The properties to change.
+ */
+export interface Update<T> {
+  id: EntityId;
+  changes: Partial<T>;
+}
+
+/**
+ * Options for creating an entity adapter.
+ *
+ * @property selectId - Function returning the identifier of an entity. Defaults to reading the `id` property.
+ * @property sortComparer - Optional comparator keeping the `ids` array sorted.
+ */
+export interface EntityAdapterOptions<T> {
+  selectId?: (entity: T) => EntityId;
+  sortComparer?: (a: T, b: T) => number;
+}
+
+/**
+ * Type alias for a selector factory produced by the entity adapter.
+ */
+export type EntitySelector<U> = (props?: any) => (state$: Observable<any>, tracker?: Tracker, reportError?: ErrorReporter) => Observable<U>;
+
+/**
+ * Interface defining the selectors generated by the entity adapter.
+ */
+export interface EntitySelectors<T> {
+  selectIds: EntitySelector<EntityId[]>;
+  selectEntities: EntitySelector<Record<EntityId, T>>;
+  selectAll: EntitySelector<T[]>;
+  selectTotal: EntitySelector<number>;
+  selectById: (id: EntityId) => (state$: Observable<any>, tracker?: Tracker, reportError?: ErrorReporter) => Observable<T | undefined>;
+}
+
+/**
+ * Interface defining the entity adapter.
+ *
+ * Every state helper is immutable: it returns a new state when the collection changes
+ * and the very same state object otherwise.
+ */
+export interface EntityAdapter<T> {
+  selectId: (entity: T) => EntityId;
+  sortComparer?: (a: T, b: T) => number;
+  getInitialState<S extends object = {}>(state?: S): EntityState<T> & S;
+  addOne<S extends EntityState<T>>(state: S, entity: T): S;
+  addMany<S extends EntityState<T>>(state: S, entities: T[]): S;
+  setAll<S extends EntityState<T>>(state: S, entities: T[]): S;
+  upsertOne<S extends EntityState<T>>(state: S, entity: T): S;
+  upsertMany<S extends EntityState<T>>(state: S, entities: T[]): S;
+  updateOne<S extends EntityState<T>>(state: S, update: Update<T>): S;
+  updateMany<S extends EntityState<T>>(state: S, updates: Update<T>[]): S;
+  removeOne<S extends EntityState<T>>(state: S, id: EntityId): S;
+  removeMany<S extends EntityState<T>>(state: S, ids: EntityId[]): S;
+  removeAll<S extends EntityState<T>>(state: S): S;
+  getSelectors(featureSelector$: ((state: Observable<any>) => Observable<any>) | "@global"): EntitySelectors<T>;
+}
+
+/**
+ * Creates an adapter for managing a normalized collection of entities inside a feature slice.
+ *
+ * @param {EntityAdapterOptions<T>} [options={}] - Options for the adapter.
+ * @returns {EntityAdapter<T>} The entity adapter.
+ */
+function createEntityAdapter<T>(options: EntityAdapterOptions<T> = {}): EntityAdapter<T> {
+  const selectId = options.selectId ?? ((entity: any) => entity.id);
+  const sortComparer = options.sortComparer;
+
+  /**
+   * Builds the next state from the modified entities, keeping the order of the ids.
+   */
+  const commit = <S extends EntityState<T>>(state: S, entities: Record<EntityId, T>, ids: EntityId[]): S => {
+    if (sortComparer) {
+      ids = [...ids].sort((a, b) => sortComparer(entities[a], entities[b]));
+    }
+    return { ...state, ids, entities };
+  };
+
+  const upsertMany = <S extends EntityState<T>>(state: S, items: T[], replace: boolean, insert: boolean, update: boolean): S => {
+    let entities: Record<EntityId, T> | undefined, ids: EntityId[] | undefined;
+    for (const item of items) {
+      const id = selectId(item);
+      const exists = (entities ?? state.entities)[id] !== undefined;
+      if (exists ? update : insert) {
+        entities = entities ?? { ...state.entities };
+        entities[id] = exists && !replace ? { ...entities[id], ...item } : item;
+        if (!exists) {
+          ids = ids ?? [...state.ids];
+          ids.push(id);
+        }
+      }
+    }
+    return entities ? commit(state, entities, ids ?? state.ids) : state;
+  };
+
+  const updateMany = <S extends EntityState<T>>(state: S, updates: Update<T>[]): S => {
+    let entities: Record<EntityId, T> | undefined, ids: EntityId[] | undefined;
+    for (const { id, changes } of updates) {
+      const current = (entities ?? state.entities)[id];
+      if (current === undefined) {
+        continue;
+      }
+      const updated = { ...current, ...changes };
+      const newId = selectId(updated);
+      entities = entities ?? { ...state.entities };
+      if (newId === id) {
+        entities[id] = updated;
+        continue;
+      }
+
+      // An entity already stored under the new id is merged with the updated one and keeps its position
+      const existing = entities[newId];
+      delete entities[id];
+      entities[newId] = existing !== undefined ? { ...existing, ...updated } : updated;
+      ids = existing !== undefined
+        ? (ids ?? state.ids).filter(value => value !== id)
+        : (ids ?? state.ids).map(value => value === id ? newId : value);
+    }
+    return entities ? commit(state, entities, ids ?? state.ids) : state;
+  };
+
+  const removeMany = <S extends EntityState<T>>(state: S, keys: EntityId[]): S => {
+    const removed = keys.filter(id => state.entities[id] !== undefined);
+    if (!removed.length) {
+      return state;
+    }
+    const entities = { ...state.entities };
+    removed.forEach(id => delete entities[id]);
+    return { ...state, ids: state.ids.filter(id => !removed.includes(id)), entities };
+  };
+
+  const getSelectors = (featureSelector$: ((state: Observable<any>) => Observable<any>) | "@global"): EntitySelectors<T> => ({
+    selectIds: selector(featureSelector$, (state: EntityState<T>) => state.ids),
+    selectEntities: selector(featureSelector$, (state: EntityState<T>) => state.entities),
+    selectAll: selector(featureSelector$, (state: EntityState<T>) => state.ids.map(id => state.entities[id])),
+    selectTotal: selector(featureSelector$, (state: EntityState<T>) => state.ids.length),
+    selectById: selector(featureSelector$, (state: EntityState<T>, id: EntityId) => state.entities[id]),
+  });
+
+  return {
+    selectId,
+    sortComparer,
+    getInitialState: <S extends object = {}>(state?: S) => ({ ids: [], entities: {}, ...state } as unknown as EntityState<T> & S),
+    addOne: (state, entity) => upsertMany(state, [entity], true, true, false),
+    addMany: (state, entities) => upsertMany(state, entities, true, true, false),
+    setAll: (state, entities) => upsertMany({ ...state, ids: [], entities: {} }, entities, true, true, true),
+    upsertOne: (state, entity) => upsertMany(state, [entity], false, true, true),
+    upsertMany: (state, entities) => upsertMany(state, entities, false, true, true),
+    updateOne: (state, update) => updateMany(state, [update]),
+    updateMany: (state, updates) => updateMany(state, updates),
+    removeOne: (state, id) => removeMany(state, [id]),
+    removeMany: (state, ids) => removeMany(state, ids),
+    removeAll: (state) => state.ids.length ? { ...state, ids: [], entities: {} } : state,
+    getSelectors,
+  };
+}
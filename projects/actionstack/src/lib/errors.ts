@@ -0,0 +1,61 @@
+import { action } from './actions';
+import { Action, AsyncAction } from './types';
+
+/**
+ * Type alias for the part of the store an error originates from.
+ */
+export type ErrorOrigin = "reducer" | "middleware" | "selector" | "thunk" | "epic" | "saga";
+
+/**
+ * Type alias for the ways the store handles an error once it has been reported.
+ *
+ *  - `swallow`: The error is logged and the processing continues. A failed reducer keeps the state of its slice.
+ *  - `rollback`: Reducers only. The changes made by the failed action to every slice are discarded.
+ *  - `rethrow`: The error is thrown to the caller. `dispatch` rejects with it, and the observables returned by `select` error with it.
+ */
+export type ErrorPolicy = "swallow" | "rollback" | "rethrow";
+
+/**
+ * Type alias for the policies applied to the errors of each origin.
+ * Only the changes of reducers can be discarded, so `rollback` is limited to them. Within a transaction,
+ * an error of any origin rolls back the whole transaction regardless of its policy.
+ */
+export type ErrorPolicies = { reducer?: ErrorPolicy } & { [origin in Exclude<ErrorOrigin, "reducer">]?: Exclude<ErrorPolicy, "rollback"> };
+
+/**
+ * Type alias for a function reporting an error to the store.
+ * It returns the reported error, carrying the policy applied to it.
+ */
+export type ErrorReporter = (error: any, origin: ErrorOrigin, slice?: string[], action?: Action | AsyncAction) => StoreError;
+
+/**
+ * Class representing an error raised while the store was processing an action or a selection.
+ *
+ * The original error is kept in the `error` property. The `policy` property is set once the error is reported,
+ * so an error bubbling up through several layers of the store is reported only once.
+ */
+export class StoreError extends Error {
+  /**
+   * The policy applied to the error when it was reported.
+   */
+  policy?: ErrorPolicy;
+
+  /**
+   * Creates a new store error.
+   * @param {ErrorOrigin} origin - The part of the store the error originates from.
+   * @param {any} error - The original error.
+   * @param {string[]} [slice] - The path of the slice being processed, if known.
+   * @param {Action | AsyncAction} [action] - The action being processed, if any.
+   */
+  constructor(readonly origin: ErrorOrigin, readonly error: any, readonly slice?: string[], readonly action?: Action | AsyncAction) {
+    super(`Error occurred in ${origin}${slice?.length ? ` for ${slice.join('.')}` : ''}${typeof action === 'object' ? ` while processing an action ${action.type}` : ''}: ${error?.message ?? error}`);
+    this.name = "StoreError";
+  }
+}
+
+/**
+ * Action creator of the action dispatched for every reported error, if enabled in the settings.
+ *
+ * @param {StoreError} error - The reported error.
+ */
+export const errorOccurred = action("@@ERROR", (error: StoreError) => ({ error }));
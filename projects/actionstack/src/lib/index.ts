@@ -1,7 +1,12 @@
 export * from "./actions";
+export * from "./diagnostics";
+export * from "./draft";
+export * from "./entity";
+export * from "./errors";
 export * from "./hash";
 export * from "./lock";
-export * from "./module";
+export * from "./patch";
+export * from "./reducer";
 export * from "./selectors";
 export * from "./slice";
 export * from "./stack";
@@ -9,6 +14,7 @@ export * from "./starter";
 export * from "./store";
 export * from "./tracker";
 export * from "./types";
+export * from "./utils";
 
 
 
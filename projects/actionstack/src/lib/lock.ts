@@ -11,7 +11,12 @@ export class Lock {
   /**
    * Internal queue to store waiting promises when the lock is acquired.
    */
-  private queue: Array<() => void> = [];
+  private queue: Array<{ resolve: () => void, reject: (reason: any) => void }> = [];
+
+  /**
+   * The reason the lock has been disposed with, if it has been disposed.
+   */
+  private disposed?: { reason: any };
 
   /**
    * Constructor (no arguments needed for initialization).
@@ -26,11 +31,13 @@ export class Lock {
    */
   public async acquire(): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (!this.isLocked) {
+      if (this.disposed) {
+        reject(this.disposed.reason); // The lock cannot be acquired anymore
+      } else if (!this.isLocked) {
         this.isLocked = true;
         resolve(); // Lock acquired, resolve the promise
       } else {
-        this.queue.push(() => resolve()); // Add resolve to queue
+        this.queue.push({ resolve: () => resolve(), reject }); // Add resolve to queue
       }
     });
   }
@@ -42,8 +49,18 @@ export class Lock {
     this.isLocked = false;
     // Process the waiting requests (if any)
     if (this.queue.length > 0) {
-      const nextResolve = this.queue.shift()!;
-      nextResolve(); // Resolve the first waiting promise
+      const { resolve } = this.queue.shift()!;
+      resolve(); // Resolve the first waiting promise
     };
   }
+
+  /**
+   * Disposes the lock. The waiting promises and all the later attempts to acquire the lock are rejected.
+   *
+   * @param {any} reason - The reason the promises are rejected with.
+   */
+  dispose(reason: any) {
+    this.disposed = { reason };
+    this.queue.splice(0).forEach(({ reject }) => reject(reason));
+  }
 }
@@ -0,0 +1,126 @@
+import { action } from './actions';
+import { applyPatch, diff, fromPointer, StateChange, toPointer } from './patch';
+import { createStore } from './store';
+import { Action } from './types';
+
+describe('toPointer and fromPointer', () => {
+  it('escape the keys of the path', () => {
+    expect(toPointer(["a/b", "c~d", "0"])).toBe("/a~1b/c~0d/0");
+    expect(fromPointer("/a~1b/c~0d/0")).toEqual(["a/b", "c~d", "0"]);
+    expect(fromPointer("")).toEqual([]);
+  });
+
+  it('rejects pointers not starting with a slash', () => {
+    expect(() => fromPointer("a/b")).toThrowError(/Invalid JSON Pointer/);
+  });
+});
+
+describe('applyPatch', () => {
+  const state = { todos: [{ id: 1 }, { id: 2 }], filter: { done: false } };
+
+  it('applies the operations without mutating the state', () => {
+    const patched = applyPatch(state, [
+      { op: "add", path: "/todos/-", value: { id: 3 } },
+      { op: "remove", path: "/todos/0" },
+      { op: "replace", path: "/filter/done", value: true },
+      { op: "copy", from: "/filter", path: "/copied" },
+      { op: "move", from: "/copied", path: "/moved" },
+      { op: "test", path: "/moved/done", value: true }
+    ]);
+
+    expect(patched).toEqual({ todos: [{ id: 2 }, { id: 3 }], filter: { done: true }, moved: { done: true } });
+    expect(state).toEqual({ todos: [{ id: 1 }, { id: 2 }], filter: { done: false } });
+  });
+
+  it('keeps the identity of the branches that are not patched', () => {
+    const patched = applyPatch(state, [{ op: "replace", path: "/filter/done", value: true }]);
+    expect(patched.todos).toBe(state.todos);
+  });
+
+  it('throws for missing locations and failed tests', () => {
+    expect(() => applyPatch(state, [{ op: "remove", path: "/missing" }])).toThrowError(/Path not found/);
+    expect(() => applyPatch(state, [{ op: "replace", path: "/todos/5", value: {} }])).toThrowError(/Invalid array index/);
+    expect(() => applyPatch(state, [{ op: "test", path: "/filter/done", value: true }])).toThrowError(/Test failed/);
+  });
+});
+
+describe('diff', () => {
+  it('describes the changes of the top-level keys', () => {
+    expect(diff({ a: 1, b: 2 }, { a: 1, b: 3, c: 4 })).toEqual([
+      { op: "replace", path: "/b", value: 3 },
+      { op: "add", path: "/c", value: 4 }
+    ]);
+    expect(diff({ a: 1, b: 2 }, { a: 1 })).toEqual([{ op: "remove", path: "/b" }]);
+  });
+
+  it('describes the changes of the modified edges', () => {
+    const previous = { main: { x: 1, y: { z: 1 } } };
+    const next = { main: { x: 2, y: previous.main.y, w: { v: 1 } } };
+    expect(diff(previous, next, { main: { x: true, w: { v: true } } })).toEqual([
+      { op: "replace", path: "/main/x", value: 2 },
+      { op: "add", path: "/main/w", value: { v: 1 } }
+    ]);
+  });
+
+  it('compares the keys the modified edges do not cover by reference', () => {
+    const previous = { main: { x: 1, y: { z: 1 } } };
+    const next = { main: { x: 2, y: { z: 2 } } };
+    expect(diff(previous, next, { main: { x: true } })).toEqual([
+      { op: "replace", path: "/main/x", value: 2 },
+      { op: "replace", path: "/main/y", value: { z: 2 } }
+    ]);
+  });
+
+  it('produces patches turning the previous state into the next one', () => {
+    const previous = { main: { x: 1 }, other: [1, 2] };
+    const next = { main: { x: 2 }, other: [1, 2, 3] };
+    expect(applyPatch(previous, diff(previous, next))).toEqual(next);
+  });
+});
+
+describe('Store.patches$', () => {
+  it('emits the patches of every committed change along with its action', async () => {
+    const rename = action("RENAME", (name: string) => name);
+    const store = createStore({ slice: "main", reducer: (state: any = { name: "" }, action: Action) => rename.match(action) ? { ...state, name: action.payload } : state }, { diagnosticLevel: "silent" })!;
+    await store.settled();
+
+    const changes: StateChange[] = [];
+    store.patches$.subscribe(change => changes.push(change));
+    await store.dispatch(rename("store"));
+
+    expect(changes).toEqual([{ action: rename("store"), patches: [{ op: "replace", path: "/main", value: { name: "store" } }] }]);
+    await store.dispose();
+  });
+
+  it('emits the changes a meta-reducer makes outside of the modified slices', async () => {
+    const rename = action("RENAME", (name: string) => name);
+    const store = createStore({
+      slice: "main",
+      reducer: { profile: (state: any = { name: "" }, action: Action) => rename.match(action) ? { ...state, name: action.payload } : state },
+      metaReducers: [async reducer => async (state: any, action: Action) => {
+        const next = await reducer(state, action);
+        return rename.match(action) ? { ...next, main: { ...next.main, renamed: true } } : next;
+      }]
+    }, { diagnosticLevel: "silent" })!;
+    await store.settled();
+
+    const changes: StateChange[] = [];
+    store.patches$.subscribe(change => changes.push(change));
+    await store.dispatch(rename("store"));
+
+    expect(changes[0].patches).toEqual([
+      { op: "replace", path: "/main/profile", value: { name: "store" } },
+      { op: "add", path: "/main/renamed", value: true }
+    ]);
+    await store.dispose();
+  });
+
+  it('applies patches to the state bypassing the reducers', async () => {
+    const store = createStore({ slice: "main", reducer: (state: any = { name: "" }) => state }, { diagnosticLevel: "silent" })!;
+    await store.applyPatches([{ op: "replace", path: "/main/name", value: "patched" }]);
+
+    const state = await new Promise<any>(resolve => store.read([], resolve));
+    expect(state.main.name).toBe("patched");
+    await store.dispose();
+  });
+});
@@ -0,0 +1,209 @@
+import { Action, Tree } from './types';
+import { getIn } from './utils';
+
+/**
+ * Type alias for the operations defined by RFC 6902.
+ */
+export type PatchOperationType = "add" | "remove" | "replace" | "move" | "copy" | "test";
+
+/**
+ * Interface defining a JSON Patch operation (RFC 6902).
+ *
+ * @property op - The operation to perform.
+ * @property path - JSON Pointer (RFC 6901) to the target location.
+ * @property value?: any (optional) - The value to add, replace or test.
+ * @property from?: string (optional) - JSON Pointer to the source location of a move or copy operation.
+ */
+export interface Patch {
+  op: PatchOperationType;
+  path: string;
+  value?: any;
+  from?: string;
+}
+
+/**
+ * Interface defining a committed state change.
+ *
+ * @property action - The action that caused the change.
+ * @property patches - The operations turning the previous state into the committed one.
+ */
+export interface StateChange {
+  action: Action;
+  patches: Patch[];
+}
+
+/**
+ * Converts a path to a JSON Pointer.
+ *
+ * @param {string[]} path - The keys of the path.
+ * @returns {string} The JSON Pointer.
+ */
+export function toPointer(path: string[]): string {
+  return path.map(key => "/" + String(key).replace(/~/g, "~0").replace(/\//g, "~1")).join("");
+}
+
+/**
+ * Converts a JSON Pointer to a path.
+ *
+ * @param {string} pointer - The JSON Pointer.
+ * @returns {string[]} The keys of the path.
+ * @throws {Error} Throws an error if the pointer is not empty and does not start with a slash.
+ */
+export function fromPointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer: '${pointer}'`);
+  }
+  return pointer.slice(1).split("/").map(key => key.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Copies the containers along the path and applies the updater to the copy of the parent of the target.
+ */
+function updateIn(state: any, path: string[], updater: (parent: any, key: string) => void): any {
+  const [key, ...rest] = path;
+  const copy = Array.isArray(state) ? [...state] : { ...state };
+  if (!rest.length) {
+    updater(copy, key);
+  } else if (state?.[key] === null || typeof state?.[key] !== "object") {
+    throw new Error(`Path not found: '${toPointer(path)}'`);
+  } else {
+    copy[key] = updateIn(state[key], rest, updater);
+  }
+  return copy;
+}
+
+/**
+ * Resolves the index addressed by a key of an array.
+ */
+function indexOf(array: any[], key: string, insert: boolean): number {
+  const index = key === "-" && insert ? array.length : Number(key);
+  if (!Number.isInteger(index) || index < 0 || index > array.length || !insert && index === array.length) {
+    throw new Error(`Invalid array index: '${key}'`);
+  }
+  return index;
+}
+
+/**
+ * Checks whether two values are structurally equal.
+ */
+function equals(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object" || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => equals(a[key], b[key]));
+}
+
+/**
+ * Adds a value at the provided path, inserting it into arrays.
+ */
+function add(state: any, path: string[], value: any): any {
+  return !path.length ? value : updateIn(state, path, (parent, key) => {
+    Array.isArray(parent) ? parent.splice(indexOf(parent, key, true), 0, value) : parent[key] = value;
+  });
+}
+
+/**
+ * Removes the value at the provided path.
+ */
+function remove(state: any, path: string[]): any {
+  return !path.length ? undefined : updateIn(state, path, (parent, key) => {
+    if (Array.isArray(parent)) {
+      parent.splice(indexOf(parent, key, false), 1);
+    } else if (key in parent) {
+      delete parent[key];
+    } else {
+      throw new Error(`Path not found: '${toPointer(path)}'`);
+    }
+  });
+}
+
+/**
+ * Replaces the value at the provided path.
+ */
+function replace(state: any, path: string[], value: any): any {
+  return !path.length ? value : updateIn(state, path, (parent, key) => {
+    parent[Array.isArray(parent) ? indexOf(parent, key, false) : key] = value;
+  });
+}
+
+/**
+ * Applies JSON Patch operations to the state without mutating it.
+ * Only the containers along the patched paths are copied, all other branches keep their identity.
+ *
+ * @param {any} state - The state to patch.
+ * @param {Patch[]} patches - The operations to apply, in order.
+ * @returns {any} The patched state.
+ * @throws {Error} Throws an error if an operation is invalid, addresses a missing location or a test fails.
+ */
+export function applyPatch(state: any, patches: Patch[]): any {
+  for (const patch of patches) {
+    const path = fromPointer(patch.path);
+    switch (patch.op) {
+      case "add":
+        state = add(state, path, patch.value);
+        break;
+      case "remove":
+        state = remove(state, path);
+        break;
+      case "replace":
+        state = replace(state, path, patch.value);
+        break;
+      case "move": {
+        const from = fromPointer(patch.from!);
+        const value = getIn(state, from);
+        state = add(remove(state, from), path, value);
+        break;
+      }
+      case "copy":
+        state = add(state, path, getIn(state, fromPointer(patch.from!)));
+        break;
+      case "test":
+        if (!equals(getIn(state, path), patch.value)) {
+          throw new Error(`Test failed: '${patch.path}'`);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported operation: '${(patch as any).op}'`);
+    }
+  }
+  return state;
+}
+
+/**
+ * Describes the difference between two states as JSON Patch operations.
+ * The objects along the modified paths are compared key by key, relying on structural sharing. Everything else,
+ * including the keys the modified paths do not cover, is compared by reference and reported as a whole.
+ * @param {any} previous - The previous state.
+ * @param {any} next - The next state.
+ * @param {Tree<boolean>} [edges={}] - The tree of modified edges.
+ * @returns {Patch[]} The operations turning the previous state into the next one.
+ */
+export function diff(previous: any, next: any, edges: Tree<boolean> = {}): Patch[] {
+  const patches: Patch[] = [];
+  const isBranch = (value: any) => typeof value === "object" && value !== null && !Array.isArray(value);
+
+  const compare = (before: any, after: any, edges: Tree<boolean> | boolean | undefined, path: string[]) => {
+    if (before === after) {
+      return;
+    } else if (isBranch(edges) && isBranch(before) && isBranch(after)) {
+      Object.keys({ ...before, ...after }).forEach(key => compare(before[key], after[key], (edges as Tree<boolean>)[key], [...path, key]));
+    } else if (before === undefined) {
+      patches.push({ op: "add", path: toPointer(path), value: after });
+    } else if (after === undefined) {
+      patches.push({ op: "remove", path: toPointer(path) });
+    } else {
+      patches.push({ op: "replace", path: toPointer(path), value: after });
+    }
+  };
+
+  // The top-level keys are always compared one by one
+  Object.keys({ ...previous, ...next }).forEach(key => compare(previous?.[key], next?.[key], edges[key], [key]));
+  return patches;
+}
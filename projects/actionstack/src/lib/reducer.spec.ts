@@ -0,0 +1,83 @@
+import { action } from './actions';
+import { createReducer, on } from './reducer';
+
+/**
+ * Resolves to true only if both types are identical.
+ */
+type Equals<T, U> = (<V>() => V extends T ? 1 : 2) extends (<V>() => V extends U ? 1 : 2) ? true : false;
+
+/**
+ * Compiles only if the type argument is true.
+ */
+const assertType = <T extends true>() => {};
+
+interface Counter {
+  value: number;
+  label: string;
+}
+
+const add = action("ADD", (amount: number) => ({ amount }));
+const rename = action("RENAME", (label: string) => ({ label }));
+const reset = action("RESET");
+
+describe('on', () => {
+  it('types the action as the union of the actions produced by the creators', () => {
+    on(add, (state: Counter, action) => {
+      assertType<Equals<typeof action.type, "ADD">>();
+      assertType<Equals<typeof action.payload, { amount: number }>>();
+      return state;
+    });
+
+    on(add, rename, (state: Counter, action) => {
+      assertType<Equals<typeof action.type, "ADD" | "RENAME">>();
+      if (action.type === "RENAME") {
+        assertType<Equals<typeof action.payload, { label: string }>>();
+      }
+      return state;
+    });
+  });
+
+  it('rejects reducer functions not matching the actions or the state', () => {
+    // @ts-expect-error The payload of ADD has no label
+    on(add, (state: Counter, action) => ({ ...state, label: action.payload.label }));
+
+    // @ts-expect-error The reducer function must return the state
+    on(add, (state: Counter, action) => action.payload.amount);
+
+    // @ts-expect-error The payload of RENAME has no amount
+    on(add, rename, (state: Counter, action) => ({ ...state, value: action.payload.amount }));
+  });
+});
+
+describe('createReducer', () => {
+  const initialState: Counter = { value: 0, label: "" };
+
+  const reducer = createReducer(initialState,
+    on(add, (state, { payload }) => ({ ...state, value: state.value + payload.amount })),
+    on(rename, (state, { payload }) => ({ ...state, label: payload.label })),
+    on(add, reset, (state, action) => action.type === "RESET" ? initialState : { ...state, label: `${state.label}+` })
+  );
+
+  it('infers the state of the associations from the initial state', () => {
+    createReducer(initialState,
+      // @ts-expect-error The value must be a number
+      on(add, (state) => ({ ...state, value: "1" }))
+    );
+  });
+
+  it('starts with the initial state', () => {
+    expect(reducer(undefined, { type: "@@INIT" })).toBe(initialState);
+  });
+
+  it('returns the state unchanged for unhandled actions', () => {
+    const state = { value: 1, label: "one" };
+    expect(reducer(state, { type: "UNKNOWN" })).toBe(state);
+  });
+
+  it('applies the associations handling the same action type in declaration order', () => {
+    let state = reducer(undefined, rename("count"));
+    state = reducer(state, add(2));
+    expect(state).toEqual({ value: 2, label: "count+" });
+    expect(reducer(state, reset())).toBe(initialState);
+  });
+});
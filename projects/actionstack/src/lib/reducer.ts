@@ -0,0 +1,51 @@
+import { Action, ActionOf, Reducer } from './types';
+
+/**
+ * Interface defining a group of action types handled by a single reducer function.
+ *
+ * @property types - The action types handled by the reducer function.
+ * @property reducer - The reducer function receiving the typed action.
+ */
+export interface On<S> {
+  types: string[];
+  reducer: (state: S, action: any) => S;
+}
+
+/**
+ * Associates a reducer function with one or more action creators.
+ *
+ * The action received by the reducer function is typed as the union of the actions produced by the creators.
+ *
+ * @param args - The action creators followed by the reducer function.
+ * @returns {On<S>} The association consumed by `createReducer`.
+ */
+export function on<S, C extends ((...args: any[]) => Action)[]>(
+  ...args: [...creators: C, reducer: (state: S, action: ActionOf<C[number]>) => S]
+): On<S> {
+  const reducer = args.pop() as (state: S, action: any) => S;
+  const types = (args as unknown as { type: string }[]).map(creator => creator.type);
+  return { types, reducer };
+}
+
+/**
+ * Creates a reducer from the initial state and a list of `on` associations.
+ *
+ * When several associations handle the same action type, they are applied in declaration order.
+ *
+ * @param {S} initialState - The initial state of the reducer.
+ * @param {...On<S>[]} ons - The associations of action creators and reducer functions.
+ * @returns {Reducer} The reducer function.
+ */
+export function createReducer<S>(initialState: S, ...ons: On<S>[]): Reducer {
+  const handlers = new Map<string, ((state: S, action: any) => S)[]>();
+  for (const { types, reducer } of ons) {
+    for (const type of types) {
+      handlers.set(type, [...(handlers.get(type) ?? []), reducer]);
+    }
+  }
+
+  return (state: S = initialState, action: Action): S => {
+    const reducers = handlers.get(action.type);
+    return reducers ? reducers.reduce((acc, reducer) => reducer(acc, action), state) : state;
+  };
+}
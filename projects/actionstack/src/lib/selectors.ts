@@ -1,8 +1,10 @@
 import { Observable } from 'rxjs/internal/Observable';
 import { Subscription } from 'rxjs/internal/Subscription';
 
+import { defaultDiagnostics } from './diagnostics';
+import { ErrorReporter } from './errors';
 import { Tracker } from './tracker';
-import { EMPTY, Observer, ProjectionFunction, SelectorFunction } from './types';
+import { Observer, ProjectionFunction, SelectorFunction } from './types';
 
 export {
   createFeatureSelector as featureSelector,
@@ -17,18 +19,24 @@ export {
  *
  * @param slice - This can be either:
  *                 * A string key representing the property name of the feature slice within the state object.
+ *                 * A dotted string such as "admin.users" representing the path of a nested feature slice.
  *                 * An array of strings representing a path of keys to navigate within the state object to reach the desired feature slice.
  * @returns A function that takes an Observable of the entire state object and returns an Observable of the selected feature data.
  */
 function createFeatureSelector<U = any, T = any> (
   slice: keyof T | string[]
 ): (state$: Observable<T>) => Observable<U> {
+  // Dotted paths address nested feature slices
+  if (typeof slice === "string" && slice.includes(".")) {
+    slice = slice.split(".");
+  }
+
   let lastValue: U | undefined;
   return (source: Observable<T>) => new Observable<U>(subscriber => {
     subscriber.next(lastValue!);
     const subscription = source.subscribe((state: T) => {
       const selectedValue = (Array.isArray(slice)
-      ? slice.reduce((acc, key) => (acc && Array.isArray(acc) ? acc[parseInt(key)] : (acc as any)[key]) || undefined, state)
+      ? slice.reduce((acc, key) => (acc === undefined || acc === null ? undefined : Array.isArray(acc) ? acc[parseInt(key)] : (acc as any)[key]) || undefined, state)
       : state && state[slice]) as unknown as U;
       lastValue = selectedValue;
       subscriber.next(selectedValue);
@@ -58,24 +66,22 @@ function createSelector<U = any, T = any>(
   featureSelector$: ((state: Observable<T>) => Observable<U>) | "@global",
   selectors: SelectorFunction | SelectorFunction[],
   projectionOrOptions?: ProjectionFunction
-): (props?: any[] | any, projectionProps?: any) => (state$: Observable<T>, tracker?: Tracker) => Observable<U> {
+): (props?: any[] | any, projectionProps?: any) => (state$: Observable<T>, tracker?: Tracker, reportError?: ErrorReporter) => Observable<U> {
 
   const isSelectorArray = Array.isArray(selectors);
   const projection = typeof projectionOrOptions === "function" ? projectionOrOptions : undefined;
 
   if (isSelectorArray && !projection) {
-    console.warn("Invalid parameters: When 'selectors' is an array, 'projection' function should be provided.");
-    return () => () => EMPTY;
+    return () => invalidSelector("Invalid parameters: When 'selectors' is an array, 'projection' function should be provided.");
   }
 
   return (props?: any[] | any, projectionProps?: any) => {
     if(Array.isArray(props) && Array.isArray(selectors) && props.length !== selectors.length) {
-      console.warn('Not all selectors are parameterized. The number of props does not match the number of selectors.');
-      return () => EMPTY;
+      return invalidSelector('Not all selectors are parameterized. The number of props does not match the number of selectors.');
     }
 
     let lastSliceState: any, emitted = false;
-    return (state$: Observable<T>, tracker?: Tracker) => {
+    return (state$: Observable<T>, tracker?: Tracker, reportError?: ErrorReporter) => {
       const trackable = new Observable<U>((observer: Observer<U | undefined>) => {
         let sliceState$: Observable<U>;
         if (featureSelector$ === "@global") {
@@ -112,7 +118,7 @@ function createSelector<U = any, T = any>(
                 }
               }
             } catch(error: any) {
-              console.warn("Error during selector execution:", error.message);
+              selectorFailed(observer, error, reportError);
             }
           }
         }, error => tracker?.setStatus(trackable, true), () => tracker?.setCompletion(trackable));
@@ -147,24 +153,22 @@ function createSelectorAsync<U = any, T = any>(
   featureSelector$: ((state: Observable<T>) => Observable<U>) | "@global",
   selectors: SelectorFunction | SelectorFunction[],
   projectionOrOptions?: ProjectionFunction
-): (props?: any[] | any, projectionProps?: any) => (state$: Observable<T>, tracker?: Tracker) => Observable<U> {
+): (props?: any[] | any, projectionProps?: any) => (state$: Observable<T>, tracker?: Tracker, reportError?: ErrorReporter) => Observable<U> {
 
   const isSelectorArray = Array.isArray(selectors);
   const projection = typeof projectionOrOptions === "function" ? projectionOrOptions : undefined;
 
   if (isSelectorArray && !projection) {
-    console.warn("Invalid parameters: When 'selectors' is an array, 'projection' function should be provided.");
-    return () => () => EMPTY;
+    return () => invalidSelector("Invalid parameters: When 'selectors' is an array, 'projection' function should be provided.");
   }
 
   return (props?: any[] | any, projectionProps?: any) => {
     if (Array.isArray(props) && Array.isArray(selectors) && props.length !== selectors.length) {
-      console.warn('Not all selectors are parameterized. The number of props does not match the number of selectors.');
-      return () => EMPTY;
+      return invalidSelector('Not all selectors are parameterized. The number of props does not match the number of selectors.');
     }
 
     let lastSliceState: any;
-    return (state$: Observable<T>, tracker?: Tracker) => {
+    return (state$: Observable<T>, tracker?: Tracker, reportError?: ErrorReporter) => {
       const trackable = new Observable<U>((observer: Observer<U>) => {
 
         let unsubscribed = false;
@@ -225,7 +229,7 @@ function createSelectorAsync<U = any, T = any>(
             }
           } catch (error: any) {
             if (!unsubscribed && !didCancel) {
-              console.warn("Error during selector execution:", error.message);
+              selectorFailed(observer, error, reportError);
             }
           }
         };
@@ -237,7 +241,7 @@ function createSelectorAsync<U = any, T = any>(
           },
           error: (error: any) => {
             if (!unsubscribed && !didCancel) {
-              console.warn("Error during selector execution:", error.message);
+              selectorFailed(observer, error, reportError);
               tracker?.setStatus(trackable, true);
             }
           },
@@ -259,3 +263,30 @@ function createSelectorAsync<U = any, T = any>(
     };
   };
 }
+
+/**
+ * Creates a selection reporting that the selector has been created with invalid parameters.
+ * The error is reported to the store selecting with it, and the selection completes without emitting.
+ */
+function invalidSelector(message: string): (state$: Observable<any>, tracker?: Tracker, reportError?: ErrorReporter) => Observable<any> {
+  return (state$: Observable<any>, tracker?: Tracker, reportError?: ErrorReporter) => new Observable<any>(observer => {
+    selectorFailed(observer, new Error(message), reportError);
+    observer.complete();
+  });
+}
+
+/**
+ * Reports an error raised while executing the selectors to the store selecting with them.
+ * Outside of a store the error is only written to the default diagnostics. Rethrown errors terminate the selection.
+ */
+function selectorFailed(observer: Observer<any>, error: any, reportError?: ErrorReporter): void {
+  if (!reportError) {
+    defaultDiagnostics.warn("selector", "Error during selector execution:", error?.message);
+    return;
+  }
+
+  const storeError = reportError(error, "selector");
+  if (storeError.policy === "rethrow") {
+    observer.error(storeError);
+  }
+}
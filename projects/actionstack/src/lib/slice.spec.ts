@@ -0,0 +1,57 @@
+import { action } from './actions';
+import { createSlice } from './slice';
+import { createStore, Store } from './store';
+
+interface Heroes {
+  names: string[];
+  selected?: number;
+}
+
+const reset = action("RESET");
+
+const heroes = createSlice({
+  name: "heroes",
+  initialState: { names: [] } as Heroes,
+  reducers: {
+    add: (state, action) => ({ ...state, names: [...state.names, action.payload] }),
+    select: {
+      reducer: (state, action) => ({ ...state, selected: action.payload }),
+      prepare: (id: number) => id
+    }
+  },
+  extraReducers: {
+    [reset.type]: () => ({ names: [] })
+  },
+  selectors: {
+    count: (state: Heroes) => state.names.length
+  }
+});
+
+describe('createSlice', () => {
+  it('prefixes the action types with the slice name', () => {
+    expect(heroes.actions.add.type).toBe("heroes/add");
+    expect(heroes.actions.add("Ann")).toEqual({ type: "heroes/add", payload: "Ann" });
+  });
+
+  it('passes primitive payloads returned by prepare to the case reducer', () => {
+    expect(heroes.actions.select(2)).toEqual({ type: "heroes/select", payload: 2 });
+    expect(heroes.reducer({ names: [] }, heroes.actions.select(0))).toEqual({ names: [], selected: 0 });
+  });
+
+  it('handles the actions declared elsewhere with the extra reducers', () => {
+    expect(heroes.reducer({ names: ["Ann"] }, reset())).toEqual({ names: [] });
+  });
+
+  it('binds the selectors to the slice state', async () => {
+    const store: Store = createStore({ slice: "main", reducer: (state: any = {}) => state }, { diagnosticLevel: "silent" })!;
+    await store.loadModule(heroes);
+    await store.dispatch(heroes.actions.add("Ann"));
+
+    const counts: number[] = [];
+    store.select(heroes.selectors.count()).subscribe(count => counts.push(count));
+    await store.settled();
+    expect(counts[counts.length - 1]).toBe(1);
+
+    await store.dispose();
+  });
+});
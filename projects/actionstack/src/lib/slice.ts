@@ -1,95 +1,110 @@
-import { ElementRef, inject, Injectable, OnDestroy } from '@angular/core';
 import { Observable } from 'rxjs/internal/Observable';
-import { Subscription } from 'rxjs/internal/Subscription';
 
-import { StoreModule } from './module';
-import { Store } from './store';
-import { Action, Reducer, SliceStrategy } from './types';
+import { action } from './actions';
+import { ErrorReporter } from './errors';
+import { featureSelector, selector } from './selectors';
+import { Tracker } from './tracker';
+import { Action, Reducer, SelectorFunction, Tree, TypedActionCreator } from './types';
 
 /**
- * Interface defining configuration options for a Slice.
+ * Type alias for a case reducer handling a single action type of a slice.
  */
-export interface SliceOptions {
-  slice?: string;
-  reducer?: Reducer;
-  dependencies?: any;
-  strategy?: SliceStrategy;
+export type CaseReducer<S = any> = (state: S, action: Action<any>) => S;
+
+/**
+ * Interface defining a case reducer with a custom payload creator.
+ *
+ * @property reducer - The case reducer.
+ * @property prepare - The function creating the payload from the arguments of the action creator.
+ */
+export interface CaseReducerWithPrepare<S = any> {
+  reducer: CaseReducer<S>;
+  prepare: (...args: any[]) => any;
 }
 
 /**
- * A class representing a slice of state within an Actionstack application.
- * A Slice instance provides methods for interacting with the Actionstack store to manage the state for a specific part of the application.
+ * Interface defining the options of `createSlice`.
  *
- * @see {@link StoreModule} - for registering the Slice with the Actionstack store.
- * @see {@link Store} - for interacting with the global Actionstack state.
- * @see {@link Action} - for representing actions that can be dispatched to update the state.
- * @see {@link Reducer} - for defining how the state is updated in response to an action.
- * @see {@link Epic} - for handling side epics triggered by actions.
+ * @property name - The name of the slice, used as the slice key and as the prefix of the action types.
+ * @property initialState - The initial state of the slice.
+ * @property reducers - Case reducers keyed by action name, an action creator is generated for each of them.
+ * @property extraReducers - Case reducers keyed by the type of actions declared elsewhere.
+ * @property selectors - Selector functions over the slice state, bound to the slice.
+ * @property dependencies - Dependencies required by the slice.
  */
-@Injectable()
-export class Slice implements OnDestroy {
-  private opts: SliceOptions;
-  private subscription = Subscription.EMPTY;
-  private elRef!: ElementRef<HTMLElement>;
+export interface CreateSliceOptions<S, N extends string, CR extends Record<string, CaseReducer<S> | CaseReducerWithPrepare<S>>, SR extends Record<string, SelectorFunction>> {
+  name: N;
+  initialState: S;
+  reducers: CR;
+  extraReducers?: Record<string, CaseReducer<S>>;
+  selectors?: SR;
+  dependencies?: Tree<any>;
+}
 
-  /**
-   * @param store - The Actionstack store instance.
-   *
-   * @throws Error if ElementRef injection fails, indicating the Slice is used in the wrong context.
-   */
-  constructor(private store: Store) {
-    try {
-      this.elRef = inject(ElementRef);
-    } catch {
-      console.warn('Injection failed. The Slice is provided in the module providers list, but it is suitable to use within component provider list.')
-    }
+/**
+ * Maps the case reducers of a slice to typed action creators.
+ *
+ * Case reducers with a `prepare` function infer the arguments and the payload from it,
+ * the others accept the payload as the only argument.
+ */
+export type SliceActions<N extends string, CR> = {
+  [K in keyof CR & string]: CR[K] extends { prepare: infer P }
+    ? P extends (...args: any[]) => any ? TypedActionCreator<`${N}/${K}`, ReturnType<P>, Parameters<P>> : never
+    : TypedActionCreator<`${N}/${K}`, any, [payload?: any]>;
+};
 
-    this.opts = {
-      slice: this.elRef ? this.elRef.nativeElement.localName : "noname",
-      reducer: (state: any = {}, action: Action) => state,
-      dependencies: {},
-      strategy: "persistent"
-    };
-  }
+/**
+ * Interface defining a slice created by `createSlice`.
+ *
+ * It is a feature module itself, so it can be passed to `StoreModule.forFeature` or `Slice.setup` directly.
+ */
+export interface SliceDefinition<S, N extends string, CR, SR> {
+  name: N;
+  slice: N;
+  initialState: S;
+  reducer: Reducer;
+  dependencies?: Tree<any>;
+  actions: SliceActions<N, CR>;
+  selectors: { [K in keyof SR]: (props?: any, projectionProps?: any) => (state$: Observable<any>, tracker?: Tracker, reportError?: ErrorReporter) => Observable<any> };
+}
 
-  /**
-   * Sets up the Slice with the provided options.
-   *
-   * @param opts - Configuration options for the Slice.
-   */
-  setup(opts: SliceOptions): void {
-    this.opts = Object.assign(this.opts, opts);
-    this.opts.slice !== undefined && this.opts.reducer && this.store.loadModule({
-      slice: this.opts.slice,
-      dependencies: this.opts.dependencies,
-      reducer: this.opts.reducer
-    }, StoreModule.injector);
-  }
+/**
+ * Creates the action creators, the reducer and the selectors of a slice from its case reducers.
+ *
+ * Action types are prefixed with the slice name, e.g. the `add` case reducer of the `heroes` slice handles `heroes/add`.
+ *
+ * @param {CreateSliceOptions} options - The options of the slice.
+ * @returns {SliceDefinition} The slice definition.
+ */
+export function createSlice<S, N extends string, CR extends Record<string, CaseReducer<S> | CaseReducerWithPrepare<S>>, SR extends Record<string, SelectorFunction> = {}>(
+  options: CreateSliceOptions<S, N, CR, SR>
+): SliceDefinition<S, N, CR, SR> {
+  const { name, initialState, reducers, extraReducers = {}, selectors = {} as SR, dependencies } = options;
 
-  /**
-   * Dispatches an action to update the state.
-   *
-   * @param action - The action to dispatch.
-   */
-  dispatch(action: Action): void {
-    this.store.dispatch(action);
-  }
+  const actions = {} as Record<string, TypedActionCreator>;
+  const handlers: Record<string, CaseReducer<S>> = { ...extraReducers };
 
-  /**
-   * Selects a portion of the state and returns an observable of that portion.
-   *
-   * @param selector - A function to apply to the observable of the state to derive a new observable.
-   * @param defaultValue - A default value to return if the selected portion of the state is undefined.
-   * @returns An observable of the selected portion of the state.
-   */
-  select<U = any, T = any>(selector: (obs: Observable<T>) => Observable<U>, defaultValue?: any): any {
-    return this.store.select(selector, defaultValue);
+  for (const key of Object.keys(reducers) as (keyof CR & string)[]) {
+    const definition = reducers[key];
+    const type = `${name}/${key}`;
+    if (typeof definition === 'function') {
+      actions[key] = action(type);
+      handlers[type] = definition;
+    } else {
+      actions[key] = action(type, definition.prepare);
+      handlers[type] = definition.reducer;
+    }
   }
 
-  /**
-   * Cleans up resources when the Slice is destroyed.
-   */
-  ngOnDestroy(): void {
-    this.opts.slice !== undefined && this.opts.reducer && this.store.unloadModule({slice: this.opts.slice, reducer: this.opts.reducer}, this.opts.strategy === "temporary" ? true : false);
-  }
+  const reducer = (state: S = initialState, action: Action<any>): S => {
+    const handler = handlers[action.type];
+    return handler ? handler(state, action) : state;
+  };
+
+  const feature = featureSelector(name);
+  const boundSelectors = Object.keys(selectors).reduce((acc, key) => ({
+    ...acc, [key]: selector(feature, selectors[key])
+  }), {} as SliceDefinition<S, N, CR, SR>["selectors"]);
+
+  return { name, slice: name, initialState, reducer, dependencies, actions: actions as SliceActions<N, CR>, selectors: boundSelectors };
 }
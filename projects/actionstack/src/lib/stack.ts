@@ -56,6 +56,12 @@ export const isOperation = (obj: any): boolean => {
 export class ExecutionStack {
   private stack = new BehaviorSubject<Operation[]>([]);
 
+  /**
+   * Observable emitting the operations of the stack whenever they change.
+   * It emits synchronously, while the operation is being added or removed.
+   */
+  readonly operations$: Observable<Operation[]> = this.stack.asObservable();
+
   /**
    * Gets the current length of the stack.
    * @returns {number} The length of the stack.
@@ -101,6 +107,14 @@ export class ExecutionStack {
     this.stack.next([]);
   }
 
+  /**
+   * Clears the stack and completes it. Pending waits for the stack are rejected.
+   */
+  complete(): void {
+    this.stack.next([]);
+    this.stack.complete();
+  }
+
   /**
    * Converts the stack to an array.
    * @returns {Operation[]} An array of operations in the stack.
@@ -125,10 +139,11 @@ export class ExecutionStack {
 
   /**
    * Waits until the stack is empty.
+   * @param {(element: Operation) => boolean} [condition] - Optional condition selecting the operations to wait for. All operations are awaited by default.
    * @returns {Promise<Operation[]>} A promise that resolves with the stack when it becomes empty.
    */
-  async waitForEmpty(): Promise<Operation[]> {
-    return await waitFor(this.stack, value => value.length === 0);
+  async waitForEmpty(condition?: (element: Operation) => boolean): Promise<Operation[]> {
+    return await waitFor(this.stack, value => condition ? !value.some(condition) : value.length === 0);
   }
 
   /**
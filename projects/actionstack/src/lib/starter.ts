@@ -1,3 +1,5 @@
+import { Diagnostics } from './diagnostics';
+import { ErrorReporter } from './errors';
 import { Lock } from './lock';
 import { ExecutionStack, Operation } from './stack';
 import { Action, AsyncAction } from './types';
@@ -11,6 +13,8 @@ import { Action, AsyncAction } from './types';
  * @property {Function} dependencies - Function to get dependencies.
  * @property {Lock} lock - Lock instance to manage action processing concurrency.
  * @property {ExecutionStack} stack - Stack instance to track action execution.
+ * @property {ErrorReporter} reportError - Function reporting the errors to the store.
+ * @property {Diagnostics} diagnostics - Diagnostics of the store.
  */
 interface MiddlewareConfig {
   dispatch: Function;
@@ -18,6 +22,8 @@ interface MiddlewareConfig {
   dependencies: Function;
   lock: Lock;
   stack: ExecutionStack;
+  reportError: ErrorReporter;
+  diagnostics: Diagnostics;
 }
 
 /**
@@ -54,9 +60,10 @@ export const createStarter = () => {
      * @param {Action | AsyncAction} action - The action to be processed.
      * @param {Function} next - The next middleware function in the chain.
      * @param {Lock} lockInstance - The lock instance to manage concurrency for this action.
+     * @param {(error: any) => void} [report] - Optional callback reporting the errors of the action before it leaves the stack.
      * @returns {Promise<void> | void} - A promise if the action is asynchronous, otherwise void.
      */
-    async handleAction(action: Action | AsyncAction, next: Function, lockInstance: any) {
+    async handleAction(action: Action | AsyncAction, next: Function, lockInstance: any, report?: (error: any) => void) {
 
       await lockInstance.acquire();
 
@@ -76,13 +83,19 @@ export const createStarter = () => {
               this.dependencies()
             );
           })();
+
+          // The async action stays on the stack until it is finished and its errors are reported
+          asyncFunc.then(() => this.stack.remove(op), (error: any) => { report?.(error); this.stack.remove(op); });
           return asyncFunc;
         } else {
           // Process regular synchronous actions
           await next(action);
         }
+      } catch (error: any) {
+        report?.(error);
+        throw error;
       } finally {
-        this.stack.remove(op);
+        typeof action !== 'function' && this.stack.remove(op);
         lockInstance.release();
       }
     }
@@ -120,10 +133,12 @@ export const createStarter = () => {
     const handler = new ActionHandler(config);
     const lockInstance = config.lock;
 
-    const asyncFunc = handler.handleAction(action, next, lockInstance);
+    // The action is not awaited, so its errors can only be reported
+    const report = (error: any) => { config.reportError(error, typeof action === 'function' ? 'thunk' : 'middleware', undefined, action); };
+    const asyncFunc = handler.handleAction(action, next, lockInstance, report);
     if (asyncFunc) {
       asyncActions.push(asyncFunc);
-      asyncFunc.finally(() => {
+      asyncFunc.catch(() => {}).finally(() => {
         asyncActions = asyncActions.filter(func => func !== asyncFunc);
       });
     }
@@ -138,13 +153,13 @@ export const createStarter = () => {
   const defaultStrategy = 'concurrent';
 
   // Create a method to select the strategy
-  const selectStrategy = ({ dispatch, getState, dependencies, strategy, lock, stack }: any) => (next: Function) => async (action: Action) => {
+  const selectStrategy = ({ dispatch, getState, dependencies, strategy, lock, stack, reportError, diagnostics }: any) => (next: Function) => async (action: Action) => {
     let strategyFunc = strategies[strategy()];
     if (!strategyFunc) {
-      console.warn(`Unknown strategy: ${strategy}, default is used: ${defaultStrategy}`);
+      diagnostics.warn("middleware", `Unknown strategy: ${strategy()}, default is used: ${defaultStrategy}`);
       strategyFunc = strategies[defaultStrategy];
     }
-    return strategyFunc({ dispatch, getState, dependencies, lock, stack })(next)(action);
+    return strategyFunc({ dispatch, getState, dependencies, lock, stack, reportError, diagnostics })(next)(action);
   };
 
   selectStrategy.signature = 'i.p.5.j.7.0.2.1.8.b';
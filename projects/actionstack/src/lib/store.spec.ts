@@ -0,0 +1,492 @@
+import { action, batch } from './actions';
+import { consoleSink, defaultDiagnostics, Diagnostic } from './diagnostics';
+import { StoreError } from './errors';
+import { StateChange } from './patch';
+import { featureSelector } from './selectors';
+import { composeEnhancers, createStore, Store } from './store';
+import { Action, FeatureModule, MetaReducer, Middleware, ProcessingStrategy, StoreEnhancer } from './types';
+
+const increment = action("INCREMENT", (amount: number = 1) => amount);
+const fail = action("FAIL");
+
+const counter = (state: number = 0, action: Action) => {
+  if (increment.match(action)) {
+    return state + action.payload;
+  } else if (fail.match(action)) {
+    throw new Error("Failed");
+  }
+  return state;
+};
+
+const create = (strategy: ProcessingStrategy = "exclusive"): Store =>
+  createStore({ slice: "main", reducer: counter, strategy }, { diagnosticLevel: "silent" })!;
+
+const stateOf = (store: Store): Promise<any> => new Promise(resolve => store.read([], resolve));
+
+describe('Store', () => {
+  let store: Store;
+
+  afterEach(async () => {
+    await store.dispose();
+  });
+
+  describe('migrations', () => {
+    const profile = (actions: Action[] = []): FeatureModule => ({
+      slice: "profile",
+      version: 2,
+      migrations: {
+        1: (state: any) => ({ name: state.fullName }),
+        2: (state: any) => ({ ...state, tags: [] })
+      },
+      reducer: (state: any = { name: "", tags: ["new"], age: 0 }, action: Action) => {
+        actions.push(action);
+        return state;
+      }
+    });
+
+    it('passes external state through the later migrations in ascending order', async () => {
+      store = create();
+
+      await store.loadModule(profile(), undefined, { version: 0, state: { fullName: "Ann" } });
+      expect((await stateOf(store)).profile).toEqual({ name: "Ann", tags: [], age: 0 });
+    });
+
+    it('skips the migrations to versions the state already has', async () => {
+      store = create();
+
+      await store.loadModule(profile(), undefined, { version: 1, state: { name: "Ann", tags: ["old"] } });
+      expect((await stateOf(store)).profile).toEqual({ name: "Ann", tags: [], age: 0 });
+    });
+
+    it('keeps the reducer defaults when the state is newer than the module', async () => {
+      store = create();
+      const actions: Action[] = [];
+
+      await store.loadModule(profile(actions), undefined, { version: 3, state: { name: "Ann" } });
+      await store.settled();
+      expect((await stateOf(store)).profile).toEqual({ name: "", tags: ["new"], age: 0 });
+      expect(actions.find(action => action.type === "MIGRATION_FAILED")?.payload.version).toBe(3);
+    });
+  });
+
+  describe('initialState', () => {
+    const profile: FeatureModule = { slice: "profile", reducer: (state: any = { name: "", tags: [] }) => state };
+    const preload = () => createStore({ slice: "main", reducer: counter, initialState: { main: 5, profile: { name: "Ann" } } }, { diagnosticLevel: "silent" })!;
+
+    it('creates the store from the preloaded state', async () => {
+      store = preload();
+
+      await store.dispatch(increment());
+      expect((await stateOf(store)).main).toBe(6);
+    });
+
+    it('merges the preloaded state of a feature over the reducer defaults once it is loaded', async () => {
+      store = preload();
+
+      await store.loadModule(profile);
+      expect((await stateOf(store)).profile).toEqual({ name: "Ann", tags: [] });
+    });
+
+    it('uses the preloaded state of a feature only once', async () => {
+      store = preload();
+
+      await store.loadModule(profile);
+      await store.unloadModule(profile, true);
+      await store.loadModule(profile);
+      expect((await stateOf(store)).profile).toEqual({ name: "", tags: [] });
+    });
+  });
+
+  describe('dispatchBatch', () => {
+    it('reduces the batched actions one after another with a single emission', async () => {
+      store = create();
+      const states: any[] = [];
+      store.select(state$ => state$).subscribe(state => states.push(state));
+      await store.settled();
+      states.length = 0;
+
+      await store.dispatchBatch([increment(1), increment(2), increment(3)]);
+      expect(states.map(state => state.main)).toEqual([6]);
+    });
+
+    it('refuses batches containing anything but plain actions', async () => {
+      store = create();
+
+      await store.dispatch(batch(increment(1), (async () => {}) as any));
+      expect((await stateOf(store)).main).toBe(0);
+    });
+  });
+
+  describe('transaction', () => {
+    it('commits the state changed by the dispatches with a single emission', async () => {
+      store = create();
+      const changes: StateChange[] = [];
+      store.patches$.subscribe(change => changes.push(change));
+      await store.settled();
+      changes.length = 0;
+
+      const committed = await store.transaction(async tx => {
+        await tx.dispatch(increment(1));
+        await tx.dispatch(increment(2));
+        expect(tx.getState("main")).toBe(3);
+      });
+
+      expect(committed).toBeTrue();
+      expect((await stateOf(store)).main).toBe(3);
+      expect(changes.filter(change => change.patches.length).length).toBe(1);
+    });
+
+    it('discards the changes when a reducer throws', async () => {
+      store = create();
+      const actions: Action[] = [];
+      await store.loadModule({ slice: "spy", reducer: (state: any = {}, action: Action) => (actions.push(action), state) });
+
+      const committed = await store.transaction(async tx => {
+        await tx.dispatch(increment(1));
+        await tx.dispatch(fail());
+      });
+
+      expect(committed).toBeFalse();
+      expect((await stateOf(store)).main).toBe(0);
+      expect(actions.map(action => action.type)).toContain("TRANSACTION_ROLLED_BACK");
+    });
+
+    it('discards the changes when the callback throws', async () => {
+      store = create();
+
+      const committed = await store.transaction(async tx => {
+        await tx.dispatch(increment(1));
+        throw new Error("Aborted");
+      });
+
+      expect(committed).toBeFalse();
+      expect((await stateOf(store)).main).toBe(0);
+    });
+
+    it('waits for the actions processed concurrently before committing', async () => {
+      store = create("concurrent");
+      let resume!: () => void;
+      const gate = new Promise<void>(resolve => resume = resolve);
+
+      const transaction = store.transaction(async tx => {
+        tx.dispatch(async (dispatch: Function) => {
+          await gate;
+          await dispatch(increment(1));
+          await dispatch(fail());
+        });
+      });
+
+      resume();
+      expect(await transaction).toBeFalse();
+      expect((await stateOf(store)).main).toBe(0);
+    });
+
+    it('applies the actions dispatched from outside once the transaction is rolled back', async () => {
+      store = create();
+      let resume!: () => void;
+      const gate = new Promise<void>(resolve => resume = resolve);
+      let inside: number | undefined;
+
+      const transaction = store.transaction(async tx => {
+        await tx.dispatch(increment(1));
+        await gate;
+        inside = tx.getState("main");
+        await tx.dispatch(fail());
+      });
+
+      await new Promise(resolve => setTimeout(resolve));
+      const outside = store.dispatch(increment(10));
+      resume();
+
+      expect(await transaction).toBeFalse();
+      await outside;
+      expect(inside).toBe(1);
+      expect((await stateOf(store)).main).toBe(10);
+    });
+
+    it('starts a transaction once the active one is committed', async () => {
+      store = create();
+      let resume!: () => void;
+      const gate = new Promise<void>(resolve => resume = resolve);
+      let seen: number | undefined;
+
+      const first = store.transaction(async tx => {
+        await tx.dispatch(increment(1));
+        await gate;
+      });
+      const second = store.transaction(async tx => {
+        seen = tx.getState("main");
+        await tx.dispatch(increment(2));
+      });
+      resume();
+
+      expect(await first).toBeTrue();
+      expect(await second).toBeTrue();
+      expect(seen).toBe(1);
+      expect((await stateOf(store)).main).toBe(3);
+    });
+
+    it('keeps the changes of a swallowed error outside of a transaction', async () => {
+      store = create();
+      const errors: StoreError[] = [];
+      store.errors$.subscribe(error => errors.push(error));
+
+      await store.dispatch(increment(1));
+      await store.dispatch(fail());
+
+      expect((await stateOf(store)).main).toBe(1);
+      expect(errors.map(error => error.origin)).toEqual(["reducer"]);
+    });
+  });
+
+  describe('feature modules', () => {
+    const decrement = action("DECREMENT");
+
+    it('runs the middleware of a module for the actions in its scope until it is unloaded', async () => {
+      store = create();
+      const seen: string[] = [];
+      const middleware: Middleware = Object.assign(
+        () => (next: Function) => async (action: Action) => { seen.push(action.type); return await next(action); },
+        { signature: "feature", scope: (action: Action) => decrement.match(action) }
+      );
+      const feature: FeatureModule = { slice: "feature", reducer: counter, middleware: [middleware] };
+
+      await store.loadModule(feature);
+      await store.dispatch(increment());
+      await store.dispatch(decrement());
+      await store.unloadModule(feature);
+      await store.dispatch(decrement());
+
+      expect(seen).toEqual(["DECREMENT"]);
+    });
+
+    it('applies the meta-reducers of a module to its slice only', async () => {
+      store = create();
+      const doubled: MetaReducer = async reducer => async (state: any, action: Action) => {
+        const next = await reducer(state, action);
+        return increment.match(action) ? next + action.payload : next;
+      };
+
+      await store.loadModule({ slice: "feature", reducer: counter, metaReducers: [doubled] });
+      await store.dispatch(increment(2));
+
+      const state = await stateOf(store);
+      expect(state.feature).toBe(4);
+      expect(state.main).toBe(2);
+    });
+  });
+
+  describe('settled', () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('waits for the pending thunks and the thunks they dispatch', async () => {
+      store = create("concurrent");
+
+      store.dispatch(async (dispatch: Function) => {
+        await delay(10);
+        await dispatch(increment());
+        dispatch(async (dispatch: Function) => {
+          await delay(10);
+          await dispatch(increment(2));
+        });
+      });
+
+      await store.settled();
+      expect((await stateOf(store)).main).toBe(3);
+    });
+
+    it('waits for the modules being loaded', async () => {
+      store = create();
+
+      store.loadModule({ slice: "feature", reducer: counter });
+      await store.settled();
+      expect((await stateOf(store)).feature).toBe(0);
+    });
+  });
+
+  describe('dispose', () => {
+    it('dispatches a system action before the store is disposed', async () => {
+      store = create();
+      const actions: string[] = [];
+      await store.addMiddleware(Object.assign(() => (next: Function) => async (action: Action) => { actions.push(action.type); return await next(action); }, { signature: "spy" }));
+
+      await store.dispose();
+      expect(actions[actions.length - 1]).toBe("STORE_DISPOSED");
+      expect(store.disposed).toBeTrue();
+    });
+
+    it('completes the state observable', async () => {
+      store = create();
+      let completed = false;
+      store.select(state$ => state$).subscribe({ complete: () => completed = true });
+
+      await store.dispose();
+      expect(completed).toBeTrue();
+    });
+
+    it('makes later dispatches and selections throw', async () => {
+      store = create();
+      await store.dispose();
+
+      await expectAsync(store.dispatch(increment())).toBeRejectedWithError("Cannot dispatch to the store, it has been disposed.");
+      expect(() => store.select(state$ => state$)).toThrowError("Cannot select from the store, it has been disposed.");
+    });
+
+    it('rejects the modules loaded later', async () => {
+      store = create();
+      await store.dispose();
+
+      await expectAsync(store.loadModule({ slice: "feature", reducer: counter })).toBeRejectedWithError("The store has been disposed.");
+    });
+  });
+
+  describe('loadModule and unloadModule', () => {
+    it('mounts the modules at nested slice paths', async () => {
+      store = create();
+      const users: FeatureModule = { slice: "admin.users", reducer: counter };
+      const values: unknown[] = [];
+      store.select(featureSelector("admin.users")).subscribe(value => values.push(value));
+
+      await store.loadModule(users);
+      await store.loadModule({ slice: ["admin", "roles"], reducer: counter });
+      await store.dispatch(increment(2));
+      expect((await stateOf(store)).admin).toEqual({ users: 2, roles: 2 });
+      expect(values[values.length - 1]).toBe(2);
+
+      await store.unloadModule(users, true);
+      expect((await stateOf(store)).admin).toEqual({ roles: 2 });
+      expect(store.inspect().modules).toEqual([{ slice: "admin.roles", references: 1 }]);
+    });
+
+    it('refuses modules overlapping with a loaded one', async () => {
+      store = createStore({ slice: "main", reducer: counter }, { diagnosticLevel: "warn", diagnosticSink: () => {} })!;
+      const warn = spyOn(store.diagnostics, "warn");
+
+      await store.loadModule({ slice: "admin", reducer: counter });
+      await store.loadModule({ slice: "admin.users", reducer: counter });
+      await store.loadModule({ slice: ["main", "nested"], reducer: counter });
+      expect(store.inspect().modules).toEqual([{ slice: "admin", references: 1 }]);
+      expect(warn.calls.allArgs().map(([_, message]) => message)).toEqual([
+        "Module admin.users overlaps with the module mounted at admin, cannot load.",
+        "Module main.nested overlaps with the module mounted at main, cannot load."
+      ]);
+    });
+
+    it('keeps a module loaded until every consumer has unloaded it', async () => {
+      store = create();
+      const feature: FeatureModule = { slice: "feature", reducer: counter };
+
+      await store.loadModule(feature);
+      await store.loadModule(feature);
+      expect(store.inspect().modules).toEqual([{ slice: "feature", references: 2 }]);
+
+      await store.dispatch(increment(2));
+      await store.unloadModule(feature, true);
+      expect(store.inspect().modules).toEqual([{ slice: "feature", references: 1 }]);
+      expect((await stateOf(store)).feature).toBe(2);
+
+      await store.unloadModule(feature, true);
+      expect(store.inspect().modules).toEqual([]);
+      expect((await stateOf(store)).feature).toBeUndefined();
+    });
+  });
+
+  describe('addMiddleware and removeMiddleware', () => {
+    const logger = (log: string[], name: string): Middleware => Object.assign(
+      () => (next: Function) => async (action: Action) => {
+        log.push(`${name}:${action.type}`);
+        return await next(action);
+      },
+      { signature: name }
+    );
+
+    it('inserts the middleware at the requested position of the chain', async () => {
+      store = create();
+      const log: string[] = [];
+
+      await store.addMiddleware(logger(log, "a"));
+      await store.addMiddleware(logger(log, "c"));
+      await store.addMiddleware(logger(log, "b"), { before: "c" });
+      await store.addMiddleware(logger(log, "d"), { after: "a" });
+      expect(store.inspect().middleware).toEqual(["a", "d", "b", "c"]);
+
+      log.length = 0;
+      await store.dispatch(increment());
+      expect(log).toEqual(["a:INCREMENT", "d:INCREMENT", "b:INCREMENT", "c:INCREMENT"]);
+    });
+
+    it('ignores middleware with a signature already in the chain', async () => {
+      store = create();
+
+      await store.addMiddleware(logger([], "a"));
+      await store.addMiddleware(logger([], "a"));
+      expect(store.inspect().middleware).toEqual(["a"]);
+    });
+
+    it('removes the middleware by reference or by signature', async () => {
+      store = create();
+      const log: string[] = [];
+      const a = logger(log, "a");
+
+      await store.addMiddleware(a);
+      await store.addMiddleware(logger(log, "b"));
+      await store.removeMiddleware(a);
+      await store.removeMiddleware("b");
+      expect(store.inspect().middleware).toEqual([]);
+
+      log.length = 0;
+      await store.dispatch(increment());
+      expect(log).toEqual([]);
+    });
+
+    it('dispatches a system action when the chain changes', async () => {
+      store = create();
+      const log: string[] = [];
+
+      await store.addMiddleware(logger(log, "a"));
+      await store.addMiddleware(logger([], "b"));
+      await store.removeMiddleware("b");
+
+      expect(log).toEqual(["a:MIDDLEWARE_ADDED", "a:MIDDLEWARE_ADDED", "a:MIDDLEWARE_REMOVED"]);
+    });
+  });
+});
+
+describe('composeEnhancers', () => {
+  const tracing = (log: string[], name: string): StoreEnhancer => createStore => (module, enhancer) => {
+    log.push(`${name}:create`);
+    const middleware: Middleware = Object.assign(
+      () => (next: Function) => async (action: Action) => { increment.match(action) && log.push(`${name}:dispatch`); return await next(action); },
+      { signature: name }
+    );
+    const store = createStore({ ...module, middleware: [...(module.middleware ?? []), middleware] }, enhancer);
+    log.push(`${name}:created`);
+    return store;
+  };
+
+  it('applies every enhancer, the first one wrapping all the others', async () => {
+    const log: string[] = [];
+    const store = createStore({ slice: "main", reducer: counter }, { diagnosticLevel: "silent" }, composeEnhancers(tracing(log, "a"), tracing(log, "b")))!;
+
+    await store.dispatch(increment());
+    await store.dispose();
+
+    expect(log).toEqual(["a:create", "b:create", "b:created", "a:created", "a:dispatch", "b:dispatch"]);
+  });
+
+  it('skips anything but functions', async () => {
+    const diagnostics: Diagnostic[] = [];
+    const log: string[] = [];
+    defaultDiagnostics.configure({ diagnosticSink: diagnostic => diagnostics.push(diagnostic) });
+
+    try {
+      const store = createStore({ slice: "main", reducer: counter }, { diagnosticLevel: "silent" }, composeEnhancers(tracing(log, "a"), {} as StoreEnhancer))!;
+      await store.dispose();
+    } finally {
+      defaultDiagnostics.configure({ diagnosticSink: consoleSink });
+    }
+
+    expect(log).toEqual(["a:create", "a:created"]);
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual(["Expected the enhancer to be a function. Instead, received: 'object'"]);
+  });
+});
@@ -1,28 +1,40 @@
-import { inject, InjectionToken, Injector, Type } from '@angular/core';
 import { BehaviorSubject } from 'rxjs/internal/BehaviorSubject';
 import { Observable } from 'rxjs/internal/Observable';
 import { Subject } from 'rxjs/internal/Subject';
 
-import { action, bindActionCreators } from './actions';
+import { action, batch, bindActionCreators } from './actions';
+import { consoleSink, defaultDiagnostics, DiagnosticCategory, DiagnosticLevel, Diagnostics, DiagnosticSink } from './diagnostics';
+import { ErrorOrigin, ErrorPolicies, ErrorReporter, errorOccurred, StoreError } from './errors';
 import { Lock } from './lock';
-import { ExecutionStack } from './stack';
+import { applyPatch, diff, fromPointer, Patch, StateChange } from './patch';
+import { ExecutionStack, Operation } from './stack';
 import { starter } from './starter';
 import { Tracker } from './tracker';
 import {
   Action,
   AnyFn,
+  AsyncAction,
   AsyncReducer,
+  DependencyResolver,
   FeatureModule,
+  isAction,
   isPlainObject,
   kindOf,
   MainModule,
   MetaReducer,
+  Middleware,
   Observer,
   ProcessingStrategy,
   Reducer,
+  StoreCreator,
   StoreEnhancer,
+  StoreInspection,
+  toSlicePath,
+  Transaction,
   Tree,
+  VersionedState,
 } from './types';
+import { getIn, isPrefix, isSamePath, leaves, removeIn, setIn } from './utils';
 
 export { createStore as store };
 
@@ -36,6 +48,12 @@ export class StoreSettings {
   awaitStatePropagation = true;
   enableMetaReducers = true;
   enableAsyncReducers = true;
+  resolver: DependencyResolver = { get: (token: any) => token };
+  errorPolicies: ErrorPolicies = {};
+  dispatchErrorActions = false;
+  diagnosticLevel: DiagnosticLevel | "silent" = "info";
+  diagnosticCategories?: DiagnosticCategory[];
+  diagnosticSink: DiagnosticSink = consoleSink;
 };
 
 /**
@@ -48,7 +66,13 @@ const SYSTEM_ACTION_TYPES = [
   "UPDATE_STATE",
   "STORE_INITIALIZED",
   "MODULE_LOADED",
-  "MODULE_UNLOADED"
+  "MODULE_UNLOADED",
+  "MIGRATION_FAILED",
+  "TRANSACTION_ROLLED_BACK",
+  "APPLY_PATCHES",
+  "MIDDLEWARE_ADDED",
+  "MIDDLEWARE_REMOVED",
+  "STORE_DISPOSED"
 ] as const;
 
 /**
@@ -89,7 +113,13 @@ const systemActions = {
   updateState: systemAction("UPDATE_STATE"),
   storeInitialized: systemAction("STORE_INITIALIZED"),
   moduleLoaded: systemAction("MODULE_LOADED", (module: FeatureModule) => ({module})),
-  moduleUnloaded: systemAction("MODULE_UNLOADED", (module: FeatureModule) => ({module}))
+  moduleUnloaded: systemAction("MODULE_UNLOADED", (module: FeatureModule) => ({module})),
+  migrationFailed: systemAction("MIGRATION_FAILED", (module: FeatureModule, version: number, error: any) => ({module, version, error})),
+  transactionRolledBack: systemAction("TRANSACTION_ROLLED_BACK", (error: any) => ({error})),
+  applyPatches: systemAction("APPLY_PATCHES", (patches: Patch[]) => ({patches})),
+  middlewareAdded: systemAction("MIDDLEWARE_ADDED", (middleware: Middleware) => ({middleware})),
+  middlewareRemoved: systemAction("MIDDLEWARE_REMOVED", (middleware: Middleware) => ({middleware})),
+  storeDisposed: systemAction("STORE_DISPOSED")
 };
 
 /**
@@ -111,27 +141,65 @@ export class Store {
     strategy: "exclusive" as ProcessingStrategy
   };
   protected modules: FeatureModule[] = [];
+  protected references = new Map<string, number>();
+  protected preloaded: any = {};
   protected pipeline = {
-    middleware: [] as any[],
+    middleware: [] as Middleware[],
     reducer: ((state: any = {}, action: Action) => state) as AsyncReducer,
-    dependencies: {} as Tree<Type<any> | InjectionToken<any>>,
+    dependencies: {} as Tree<any>,
     strategy: "exclusive" as ProcessingStrategy
   };
   protected currentState = new BehaviorSubject<any>(undefined);
-  protected systemActions = { ...systemActions };
-  protected settings = { ...new StoreSettings(), ...inject(StoreSettings) };
+  protected systemActions = { ...systemActions } as unknown as { [K in keyof typeof systemActions]: (...args: any[]) => Promise<void> };
+  protected settings: StoreSettings;
   protected tracker = new Tracker();
   protected lock = new Lock();
   protected stack = new ExecutionStack();
+  protected activeTransaction?: { state: any, failed: boolean, error?: any, done: Promise<void> };
+  protected transactionDispatch!: (action: any) => Promise<any>;
+  protected edges: Tree<boolean> = {};
+  protected changes = new Subject<StateChange>();
+  protected isDisposed = false;
+  protected errors = new Subject<StoreError>();
 
   /**
-   * Creates a new store instance with the provided mainModule and optional enhancer.
+   * Observable of the committed state changes, described as JSON Patch operations along with the action that caused them.
+   */
+  readonly patches$: Observable<StateChange> = this.changes.asObservable();
+
+  /**
+   * Diagnostics of the store, written to the sink configured in the settings.
+   */
+  readonly diagnostics: Diagnostics;
+
+  /**
+   * Observable of the errors raised by reducers, middleware, selectors, thunks, epics and sagas.
+   * Every error is emitted once, along with the policy applied to it, regardless of the policy.
+   */
+  readonly errors$: Observable<StoreError> = this.errors.asObservable();
+
+  /**
+   * Creates a new store instance with the provided settings.
+   * @param {Partial<StoreSettings>} [settings={}] - Settings overriding the defaults.
+   */
+  constructor(settings: Partial<StoreSettings> = {}) {
+    this.settings = { ...new StoreSettings(), ...settings };
+    this.diagnostics = new Diagnostics(this.settings);
+  }
+
+  /**
+   * Creates a new store instance with the provided mainModule, optional settings and optional enhancer.
    * @param {MainModule} mainModule - The main module containing middleware, reducer, dependencies, and strategy.
+   * @param {Partial<StoreSettings> | StoreEnhancer} [settings] - Optional store settings, or the enhancer if the settings are omitted.
    * @param {StoreEnhancer} [enhancer] - Optional store enhancer function.
    * @returns {Store} The created store instance.
    * @throws {Error} Throws an error if the enhancer is not a function.
    */
-  static create(mainModule: MainModule, enhancer?: StoreEnhancer) {
+  static create(mainModule: MainModule, settings?: Partial<StoreSettings> | StoreEnhancer, enhancer?: StoreEnhancer) {
+    if (typeof settings === "function") {
+      enhancer = settings;
+      settings = undefined;
+    }
 
     /**
      * Function to create a store instance.
@@ -140,37 +208,44 @@ export class Store {
      */
     let storeCreator = (mainModule: MainModule) => {
 
-      let store = new Store();
+      let store = new Store(settings as Partial<StoreSettings>);
 
       // Assign mainModule properties to store
       mainModule = {...store.mainModule, ...mainModule};
       store.mainModule = mainModule;
+      store.preloaded = mainModule.initialState ?? {};
 
       // Configure store pipeline
       store.pipeline = {...store.pipeline, ...{
         middleware: Array.from(mainModule.middleware ?? []),
         reducer: store.combineReducers({[mainModule.slice!]: mainModule.reducer}),
-        dependencies: {...mainModule.dependencies},
         strategy: mainModule.strategy!,
       }};
 
+      // Resolve dependencies of the main module
+      store.injectDependencies(store.settings.resolver);
+
       // Apply middleware
       store.applyMiddleware();
 
       // Bind system actions
-      store.systemActions = bindActionCreators(systemActions, (action: Action) => store.settings.dispatchSystemActions && store.dispatch(action));
+      store.systemActions = bindActionCreators(systemActions, async (action: Action) => { store.settings.dispatchSystemActions && await store.dispatch(action); });
+
+      // Errors are reported before they are rethrown, so the promises nobody awaits only have to be caught
+      const caught = (error: any) => { store.reportError(error, "reducer"); };
 
       // Initialize state and mark store as initialized
-      store.systemActions.initializeState();
+      store.systemActions.initializeState().catch(caught);
 
-      console.log("%cYou are using ActionStack. Happy coding! 🎉", "font-weight: bold;");
+      store.diagnostics.info("store", "%cYou are using ActionStack. Happy coding! 🎉", "font-weight: bold;");
 
       store.lock.acquire()
-        .then(() => store.setupReducer())
+        .then(() => store.setupReducer(store.preloaded))
         .then(state => store.setState("@global", state))
-        .finally(() => store.lock.release());
+        .finally(() => store.lock.release())
+        .catch(caught);
 
-      store.systemActions.storeInitialized();
+      store.systemActions.storeInitialized().catch(caught);
 
       return store;
     }
@@ -178,7 +253,7 @@ export class Store {
     // Apply enhancer if provided
     if (typeof enhancer !== "undefined") {
       if (typeof enhancer !== "function") {
-        console.warn(`Expected the enhancer to be a function. Instead, received: '${kindOf(enhancer)}'`);
+        new Diagnostics({ ...new StoreSettings(), ...settings }).warn("store", `Expected the enhancer to be a function. Instead, received: '${kindOf(enhancer)}'`);
         return;
       }
       // Apply the enhancer to the storeCreator function
@@ -196,22 +271,144 @@ export class Store {
    */
   async dispatch(action: Action | any) {
     if (!isPlainObject(action)) {
-      console.warn(`Actions must be plain objects. Instead, the actual type was: '${kindOf(action)}'. You may need to add middleware to your setup to handle dispatching custom values.`);
+      this.diagnostics.warn("store", `Actions must be plain objects. Instead, the actual type was: '${kindOf(action)}'. You may need to add middleware to your setup to handle dispatching custom values.`);
       return;
     }
     if (typeof action.type === "undefined") {
-      console.warn('Actions may not have an undefined "type" property. You may have misspelled an action type string constant.');
+      this.diagnostics.warn("store", 'Actions may not have an undefined "type" property. You may have misspelled an action type string constant.');
       return;
     }
     if (typeof action.type !== "string") {
-      console.warn(`Action "type" property must be a string. Instead, the actual type was: '${kindOf(action.type)}'. Value was: '${action.type}' (stringified)`);
+      this.diagnostics.warn("store", `Action "type" property must be a string. Instead, the actual type was: '${kindOf(action.type)}'. Value was: '${action.type}' (stringified)`);
+      return;
+    }
+
+    if (batch.match(action) && !action.payload.actions.every(isAction)) {
+      this.diagnostics.warn("store", 'Batched actions must be plain objects with a string "type" property. The batch will not be processed.');
       return;
     }
 
     try {
       await this.updateState("@global", async (state) => await this.pipeline.reducer(state, action), action);
-    } catch {
-      console.warn("Error during processing the action");
+    } catch (error) {
+      // Errors of the reducers are already reported, the ones of the meta-reducers are reported here
+      const storeError = this.reportError(error, "reducer", undefined, action);
+
+      // Let the active transaction know it has to be rolled back
+      if (this.activeTransaction || storeError.policy === "rethrow") {
+        throw storeError;
+      }
+    }
+  }
+
+  /**
+   * Dispatches several actions as a single batch.
+   * The actions are reduced one after another, and the resulting state is committed once.
+   * @param {Action[]} actions - The actions to dispatch.
+   * @returns {Promise<void>} A promise that resolves once the batch is processed.
+   */
+  async dispatchBatch(actions: Action[]) {
+    return await this.dispatch(batch(...actions));
+  }
+
+  /**
+   * Applies JSON Patch operations to the state, bypassing the reducers.
+   * The patches are applied atomically: if any of them fails, the state is left unchanged.
+   * @param {Patch[]} patches - The operations to apply.
+   * @returns {Promise<void>} A promise that resolves once the patches are applied.
+   */
+  async applyPatches(patches: Patch[]) {
+    return await this.dispatch(systemActions.applyPatches(patches));
+  }
+
+  /**
+   * Runs the dispatches made by the callback as a single transaction.
+   * While the transaction is active, the state changes are applied to a working copy of the state,
+   * which is committed with a single emission once the callback resolves. If a reducer, a middleware,
+   * a thunk or the callback itself throws, the working copy is discarded and a `TRANSACTION_ROLLED_BACK`
+   * action carrying the error is dispatched.
+   * Dispatches made through the `tx` handle have to be awaited, and so do the actions dispatched by the thunks
+   * they start. Actions dispatched from elsewhere while the transaction is active, by epics and sagas as well,
+   * wait until it is committed or rolled back. So do transactions started meanwhile, which is why a transaction
+   * cannot be started from within the callback of another one.
+   * With the concurrent strategy, `dispatch` does not wait for the actions, so the transaction waits
+   * for every action and thunk started while it was active before it is committed.
+   * @param {(tx: Transaction) => void | Promise<void>} callback - The function dispatching the actions of the transaction.
+   * @returns {Promise<boolean>} A promise that resolves to true if the transaction has been committed, or false if it has been rolled back.
+   */
+  async transaction(callback: (tx: Transaction) => void | Promise<void>): Promise<boolean> {
+    while (this.activeTransaction) {
+      await this.activeTransaction.done;
+    }
+
+    let finish!: () => void;
+    const transaction = { state: this.currentState.value, failed: false, error: undefined as any, done: new Promise<void>(resolve => finish = resolve) };
+    this.activeTransaction = transaction;
+
+    const fail = (error: any) => {
+      if (!transaction.failed) {
+        transaction.failed = true;
+        transaction.error = error;
+      }
+    };
+
+    // The errors of the actions processed concurrently are only reported, so they are watched for
+    const running = new Set(this.stack.toArray());
+    const subscription = this.errors.subscribe(error => {
+      ["reducer", "middleware", "thunk"].includes(error.origin) && fail(error);
+    });
+
+    const tx: Transaction = {
+      dispatch: async (action: Action | AsyncAction) => {
+        await this.transactionDispatch(action);
+        if (transaction.failed) {
+          throw transaction.error;
+        }
+      },
+      getState: (slice?: any) => this.getState(slice)
+    };
+
+    try {
+      await callback(tx);
+    } catch (error: any) {
+      fail(error);
+    }
+
+    try {
+      // The actions started while the transaction was active are awaited, the ones running before may be waiting for it.
+      // Actions still waiting for the lock are not on the stack yet, so the stack is checked once the lock is acquired.
+      const pending = (operation: Operation) => (operation.operation === "action" || operation.operation === "async action") && !running.has(operation);
+      let idle = false;
+      while (!idle) {
+        await this.lock.acquire();
+        idle = !this.stack.toArray().some(pending);
+        if (!idle) {
+          this.lock.release();
+          await this.stack.waitForEmpty(pending);
+        }
+      }
+
+      try {
+        this.activeTransaction = undefined;
+        if (!transaction.failed) {
+          await this.setState("@global", transaction.state);
+        } else {
+          this.edges = {};
+        }
+      } finally {
+        this.lock.release();
+      }
+
+      if (transaction.failed) {
+        this.diagnostics.warn("store", `Transaction has been rolled back: ${transaction.error?.message ?? transaction.error}`);
+        await this.systemActions.transactionRolledBack(transaction.error);
+      }
+      return !transaction.failed;
+    } finally {
+      // Dispatches and transactions waiting for this one may proceed, even if the store has been disposed meanwhile
+      subscription.unsubscribe();
+      this.activeTransaction === transaction && (this.activeTransaction = undefined);
+      finish();
     }
   }
 
@@ -242,11 +439,15 @@ export class Store {
    * @param {*} [defaultValue] - The default value to use if the selected value is undefined.
    * @returns {Observable<any>} An observable stream with the selected value.
    */
-  select<T = any, R = any>(selector: (obs: Observable<T>, tracker?: Tracker) => Observable<R>, defaultValue?: any): Observable<R> {
+  select<T = any, R = any>(selector: (obs: Observable<T>, tracker?: Tracker, reportError?: ErrorReporter) => Observable<R>, defaultValue?: any): Observable<R> {
+    if (this.isDisposed) {
+      throw new Error("Cannot select from the store, it has been disposed.");
+    }
+
     let lastValue: any;
     let selected$: Observable<R> | undefined;
     return new Observable<R>((subscriber: Observer<R>) => {
-      const subscription = this.currentState.pipe((state) => (selected$ = selector(state, this.tracker) as Observable<R>)).subscribe(selectedValue => {
+      const subscription = this.currentState.pipe((state) => (selected$ = selector(state, this.tracker, this.reportError.bind(this)) as Observable<R>)).subscribe(selectedValue => {
         const filteredValue = selectedValue === undefined ? defaultValue : selectedValue;
         if(filteredValue !== lastValue) {
           Promise.resolve(subscriber.next(filteredValue))
@@ -255,7 +456,7 @@ export class Store {
         } else {
           this.tracker.setStatus(selected$!, true);
         }
-      });
+      }, error => subscriber.error(error), () => subscriber.complete());
 
       return () => subscription.unsubscribe();
     });
@@ -271,10 +472,12 @@ export class Store {
    * @template T
    */
   protected getState<T = any>(slice?: keyof T | string[]): any {
-    if (this.currentState.value === undefined || slice === undefined || typeof slice === "string" && slice == "@global") {
-      return this.currentState.value as T;
+    // An active transaction works with its own copy of the state
+    const state = this.activeTransaction ? this.activeTransaction.state : this.currentState.value;
+    if (state === undefined || slice === undefined || typeof slice === "string" && slice == "@global") {
+      return state as T;
     } else if (typeof slice === "string") {
-      return this.currentState.value[slice] as T;
+      return state[slice] as T;
     } else if (Array.isArray(slice)) {
       return slice.reduce((acc, key) => {
         if (acc === undefined || acc === null) {
@@ -284,9 +487,9 @@ export class Store {
         } else {
           return acc[key];
         }
-      }, this.currentState.value) as T;
+      }, state) as T;
     } else {
-      console.warn("Unsupported type of slice parameter");
+      this.diagnostics.warn("store", "Unsupported type of slice parameter");
     }
   }
 
@@ -330,22 +533,33 @@ export class Store {
    * @template T
    */
   protected async setState<T = any>(slice: keyof T | string[] | undefined, value: any, action: Action = systemActions.updateState()): Promise<any> {
+    const state = this.activeTransaction ? this.activeTransaction.state : this.currentState.value;
     let newState: any;
     if (slice === undefined || typeof slice === "string" && slice == "@global") {
       // Update the whole state with a shallow copy of the value
       newState = ({...value});
     } else if (typeof slice === "string") {
       // Update the state property with the given key with a shallow copy of the value
-      newState = {...this.currentState.value, [slice]: { ...value }};
+      newState = {...state, [slice]: { ...value }};
     } else if (Array.isArray(slice)) {
       // Apply change to the state based on the provided path and value
-      newState = this.applyChange(this.currentState.value, {path: slice, value}, {});
+      newState = this.applyChange(state, {path: slice, value}, {});
     } else {
       // Unsupported type of slice parameter
-      console.warn("Unsupported type of slice parameter");
+      this.diagnostics.warn("store", "Unsupported type of slice parameter");
       return;
     }
 
+    // Changes made within a transaction are kept until it is committed
+    if (this.activeTransaction) {
+      this.activeTransaction.state = newState;
+      return newState;
+    }
+
+    // Describe the change by the paths modified since the last commit
+    const patches = diff(state, newState, this.edges);
+    this.edges = {};
+
     this.tracker.reset();
 
     const next = async <T>(subject: Subject<T>, value: T): Promise<void> => {
@@ -361,6 +575,10 @@ export class Store {
       await Promise.allSettled([stateUpdated]);
     }
 
+    if (patches.length) {
+      this.changes.next({ action, patches });
+    }
+
     return newState;
   }
 
@@ -376,7 +594,7 @@ export class Store {
    */
   protected async updateState<T = any>(slice: keyof T | string[] | undefined, callback: AnyFn, action: Action = systemActions.updateState()): Promise<void> {
     if(callback === undefined) {
-      console.warn('Callback function is missing. State will not be updated.')
+      this.diagnostics.warn("store", 'Callback function is missing. State will not be updated.')
       return;
     }
 
@@ -392,11 +610,11 @@ export class Store {
    * @protected
    */
   protected combineReducers(reducers: Tree<Reducer>): AsyncReducer {
-    // Create a map for reducers
-    const reducerMap = new Map<Reducer, string[]>();
+    // Create a list of reducers with their paths, the same reducer may be mounted at several paths
+    const reducerMap: [Reducer, string[]][] = [];
 
     /**
-     * Recursively builds a map of reducers with their corresponding paths.
+     * Recursively builds a list of reducers with their corresponding paths.
      * @param {Tree<Reducer>} tree - The tree structure containing reducers.
      * @param {string[]} [path=[]] - The current path in the tree.
      */
@@ -404,7 +622,7 @@ export class Store {
       for (const key in tree) {
         const reducer = tree[key]; const newPath = [...path, key]; // Add current key to the path
         if(reducer instanceof Function) {
-          reducerMap.set(reducer, newPath);
+          reducerMap.push([reducer, newPath]);
         }
         else if (typeof reducer === 'object') {
           buildReducerMap(reducer, newPath);
@@ -421,17 +639,57 @@ export class Store {
      * @returns {Promise<any>} A promise that resolves to the modified state.
      */
     const combinedReducer = async (state: any = {}, action: Action) => {
-      // Apply every reducer to state and track changes
-      let modified = {};
-      for (const [reducer, path] of reducerMap) {
+      // Patches are applied as they are, without running the reducers
+      if (systemActions.applyPatches.match(action)) {
         try {
-          const currentState = await this.getState(path);
-          const updatedState = await reducer(currentState, action);
-          if(currentState !== updatedState) { state = await this.applyChange(state, {path, value: updatedState}, modified); }
+          const patches: Patch[] = action.payload.patches;
+          const patched = applyPatch(state, patches);
+          for (const patch of patches) {
+            const structural = patch.op !== "replace" && patch.op !== "test";
+            const pointers = patch.op === "test" ? [] : patch.op === "move" ? [patch.from!, patch.path] : [patch.path];
+            for (const pointer of pointers) {
+              // Inserting into or removing from an array shifts its items, so the whole array is marked
+              let path = fromPointer(pointer);
+              const parent = path.slice(0, -1);
+              if (structural && path.length && (Array.isArray(getIn(state, parent)) || Array.isArray(getIn(patched, parent)))) {
+                path = parent;
+              }
+              markEdge(this.edges, path);
+            }
+          }
+          return patched;
         } catch (error: any) {
-          console.warn(`Error occurred while processing an action ${action.type} for ${path.join('.')}: ${error.message}`);
+          const storeError = this.reportError(error, "reducer", undefined, action);
+          if (this.activeTransaction || storeError.policy !== "swallow") {
+            throw storeError;
+          }
+          return state;
+        }
+      }
+
+      // Batched actions are reduced one after another on the same state
+      const actions = batch.match(action) ? action.payload.actions : [action];
+
+      // Apply every reducer to state and track changes
+      let modified = {};
+      for (const action of actions) {
+        for (const [reducer, path] of reducerMap) {
+          try {
+            const currentState = getIn(state, path);
+            const updatedState = await reducer(currentState, action);
+            if(currentState !== updatedState) { state = await this.applyChange(state, {path, value: updatedState}, modified); }
+          } catch (error: any) {
+            // Unless swallowed, the error discards the changes of the whole action
+            const storeError = this.reportError(error, "reducer", path, action);
+            if (this.activeTransaction || storeError.policy !== "swallow") {
+              throw storeError;
+            }
+          }
         }
       }
+
+      // Keep the modified paths until the state is committed
+      leaves(modified).forEach(path => markEdge(this.edges, path));
       return state;
     };
     return combinedReducer;
@@ -445,33 +703,36 @@ export class Store {
    */
   protected async setupReducer(state: any = {}): Promise<any> {
 
-    let featureReducers = [{slice: this.mainModule.slice!, reducer: this.mainModule.reducer}, ...this.modules].reduce((reducers, module) => {
-      let moduleReducer: any = module.reducer instanceof Function ? module.reducer : {...module.reducer};
-      reducers = {...reducers, [module.slice]: moduleReducer};
-      return reducers;
-    }, {} as Tree<Reducer>);
-
-    let reducer = this.combineReducers(featureReducers);
-
     // Define async compose function to apply meta reducers
     const asyncCompose = (...fns: MetaReducer[]) => async (reducer: AsyncReducer) => {
       for (let i = fns.length - 1; i >= 0; i--) {
         try {
           reducer = await fns[i](reducer);
         } catch (error: any) {
-          console.warn(`Error in metareducer ${i}:`, error.message);
+          if (this.reportError(error, "reducer").policy === "rethrow") {
+            throw error;
+          }
         }
       }
       return reducer;
     };
 
+    let featureReducers = {} as Tree<Reducer>;
+    for (const module of [{slice: this.mainModule.slice!, reducer: this.mainModule.reducer} as FeatureModule, ...this.modules]) {
+      let moduleReducer: any = module.reducer instanceof Function ? module.reducer : {...module.reducer};
+
+      // Meta reducers of a feature module wrap the reducer of its slice only
+      if (this.settings.enableMetaReducers && module.metaReducers && module.metaReducers.length) {
+        moduleReducer = await asyncCompose(...module.metaReducers)(moduleReducer instanceof Function ? moduleReducer : reduceTree(moduleReducer));
+      }
+      featureReducers = setIn(featureReducers, toSlicePath(module.slice), moduleReducer);
+    }
+
+    let reducer = this.combineReducers(featureReducers);
+
     // Apply meta reducers if enabled
     if (this.settings.enableMetaReducers && this.mainModule.metaReducers && this.mainModule.metaReducers.length) {
-      try {
-        reducer = await asyncCompose(...this.mainModule.metaReducers)(reducer);
-      } catch (error: any) {
-        console.warn('Error applying meta reducers:', error.message);
-      }
+      reducer = await asyncCompose(...this.mainModule.metaReducers)(reducer);
     }
 
     this.pipeline.reducer = reducer;
@@ -481,12 +742,36 @@ export class Store {
   }
 
   /**
-   * Injects dependencies into the store using the provided injector.
-   * @param {Injector} injector - The injector to use for dependency injection.
+   * Migrates externally supplied state of a slice to the version declared by its module.
+   * @param {FeatureModule} module - The module the state belongs to.
+   * @param {VersionedState} external - The externally supplied state and the version it was produced with.
+   * @returns {Promise<any>} A promise that resolves to the migrated state.
+   * @throws {Error} Throws an error if the state is newer than the module or a migration fails.
+   * @protected
+   */
+  protected async migrate(module: FeatureModule, external: VersionedState): Promise<any> {
+    const version = external.version ?? 0, target = module.version ?? 0;
+    if (version > target) {
+      throw new Error(`State version ${version} is newer than the module version ${target}`);
+    }
+
+    const migrations = module.migrations ?? {};
+    const steps = Object.keys(migrations).map(Number).filter(step => step > version && step <= target).sort((a, b) => a - b);
+
+    let state = external.state;
+    for (const step of steps) {
+      state = await migrations[step](state);
+    }
+    return state;
+  }
+
+  /**
+   * Injects dependencies into the store using the provided resolver.
+   * @param {DependencyResolver} resolver - The resolver returning the dependencies identified by the tokens.
    * @returns {Store} The store instance with injected dependencies.
    * @protected
    */
-  protected injectDependencies(injector: Injector): Store {
+  protected injectDependencies(resolver: DependencyResolver): Store {
     // Initialize the new dependencies object
     let newDependencies = {} as any;
 
@@ -513,14 +798,16 @@ export class Store {
         // If value is an array, add its elements to the stack
         subtree[key] = [];
         stack.push(...value.map((v, i) => ({ parent: value, key: i, subtree: subtree[key] })));
-      } else if (typeof value === 'object' && value !== null) {
-        // If value is an object, add its children to the stack
+      } else if (isPlainObject(value)) {
+        // If value is a plain object, add its children to the stack
         subtree[key] = {};
         stack.push(...Object.keys(value).map(childKey => ({ parent: value, key: childKey, subtree: subtree[key] })));
-      } else if (typeof value === 'function' || value instanceof InjectionToken) {
-        // If value is a function or an instance of InjectionToken, get the dependency from the injector
-        const Dependency = value as Type<any> | InjectionToken<any>;
-        subtree[key] = injector.get(Dependency);
+      } else if (isToken(value)) {
+        // If value is a token, get the dependency from the resolver
+        subtree[key] = resolver.get(value);
+      } else {
+        // Any other value is used as it is
+        subtree[key] = value;
       }
     }
 
@@ -535,7 +822,7 @@ export class Store {
    */
   protected ejectDependencies(module: FeatureModule): Store {
     // Combine all dependencies into one object, excluding the module to eject
-    let allDependencies = [this.mainModule.dependencies, ...this.modules.filter(m => m !== module).map(m => m.dependencies)].filter(Boolean);
+    let allDependencies = [this.mainModule.dependencies, ...this.modules.filter(m => !isSamePath(toSlicePath(m.slice), toSlicePath(module.slice))).map(m => m.dependencies)].filter(Boolean);
 
     // Initialize the new dependencies object
     let newDependencies = {} as any;
@@ -556,13 +843,13 @@ export class Store {
         if (Array.isArray(target[key])) {
           // If target[key] is an array, iterate over its elements
           for (let i = 0; i < target[key].length; i++) {
-            if (typeof target[key][i] !== 'function' && !(target[key][i] instanceof InjectionToken)) {
+            if (!isToken(target[key][i])) {
               stack.push({ source: source[key][i], target: target[key][i] });
             } else {
               target[key][i] = source[key][i];
             }
           }
-        } else if (typeof target[key] !== 'function' && !(target[key] instanceof InjectionToken)) {
+        } else if (!isToken(target[key])) {
           stack.push({ source: source[key], target: target[key] });
         } else {
           target[key] = source[key];
@@ -583,103 +870,473 @@ export class Store {
    */
   protected applyMiddleware(): Store {
 
-    let dispatch = async (action: any) => {
-      console.warn("Dispatching while constructing your middleware is not allowed. Other middleware would not be applied to this dispatch.");
-      return;
-    };
+    let constructing = true;
 
     // Define starter and middleware APIs
     const middlewareAPI = {
       getState: () => this.getState(),
-      dispatch: async (action: any) => await dispatch(action),
+      dispatch: async (action: any) => {
+        if (constructing) {
+          this.diagnostics.warn("middleware", "Dispatching while constructing your middleware is not allowed. Other middleware would not be applied to this dispatch.");
+          return;
+        }
+        // Always dispatch through the current chain, which is recomposed when modules are loaded or unloaded
+        return await this.dispatch(action);
+      },
       dependencies: () => this.pipeline.dependencies,
       strategy: () => this.pipeline.strategy,
       lock: this.lock,
-      stack: this.stack
+      stack: this.stack,
+      reportError: this.reportError.bind(this),
+      diagnostics: this.diagnostics
     };
 
-    // Build middleware chain
-    const chain = [starter(middlewareAPI), ...this.pipeline.middleware.map(middleware => middleware(middlewareAPI))];
-    // Compose middleware chain with dispatch function
-    dispatch = (chain.length === 1 ? chain[0] : chain.reduce((a, b) => (...args: any[]) => a(b(...args))))(this.dispatch.bind(this));
+    // Build middleware chain, the middleware of the feature modules follow the middleware of the main module
+    const middleware = [...this.pipeline.middleware, ...this.modules.flatMap(module => module.middleware ?? [])];
+    const chain: any[] = [starter(middlewareAPI), ...middleware.map(middleware => scope(middleware)(middlewareAPI))];
+    // Compose middleware chain with the dispatch method of the class, so the chain can be recomposed later
+    const composed = (chain.length === 1 ? chain[0] : chain.reduce((a, b) => (...args: any[]) => a(b(...args))))(Object.getPrototypeOf(this).dispatch.bind(this));
+    constructing = false;
+
+    // Errors thrown while dispatching fail the active transaction, otherwise they are only reported
+    const dispatch = async (action: any): Promise<any> => {
+      if (this.isDisposed) {
+        throw new Error("Cannot dispatch to the store, it has been disposed.");
+      }
+
+      try {
+        return await composed(action);
+      } catch (error: any) {
+        const storeError = this.reportError(error, typeof action === "function" ? "thunk" : "middleware", undefined, action);
+        if (!this.activeTransaction) {
+          if (storeError.policy === "rethrow") {
+            throw storeError;
+          }
+        } else if (!this.activeTransaction.failed) {
+          this.activeTransaction.failed = true;
+          this.activeTransaction.error = storeError;
+        }
+      }
+    };
 
-    this.dispatch = dispatch;
+    // Dispatches from outside of the active transaction wait until it is committed or rolled back
+    this.transactionDispatch = dispatch;
+    this.dispatch = async (action: any) => {
+      while (this.activeTransaction) {
+        await this.activeTransaction.done;
+      }
+      return await dispatch(action);
+    };
     return this;
   }
 
+  /**
+   * Waits until the store has settled, that is until no action, async action or module loading is being processed.
+   * Epics and sagas live as long as the store, so only the actions they dispatch are awaited.
+   * The store is considered settled only if no new action starts within the next macrotask,
+   * which makes the method suitable to wait for before rendering on the server.
+   * @returns {Promise<void>} A promise that resolves once the store has settled.
+   */
+  async settled(): Promise<void> {
+    const pending = (operation: Operation) => operation.operation === "action" || operation.operation === "async action";
+    do {
+      await this.stack.waitForEmpty(pending);
+      // Modules are loaded and unloaded under the lock, outside of any action
+      await this.lock.acquire();
+      this.lock.release();
+      await new Promise(resolve => setTimeout(resolve));
+    } while (this.stack.toArray().some(pending));
+  }
+
+  /**
+   * Indicates whether the store has been disposed.
+   */
+  get disposed(): boolean {
+    return this.isDisposed;
+  }
+
+  /**
+   * Disposes the store and releases its resources.
+   * A `STORE_DISPOSED` action is dispatched first, regardless of the settings, so the middleware can cancel
+   * the running epics and sagas. Then the state and the tracker subjects are completed, the execution stack
+   * is cleared and the operations waiting for the lock are rejected. Dispatching to a disposed store or
+   * selecting from it throws an error.
+   * @returns {Promise<void>} A promise that resolves once the store is disposed.
+   */
+  async dispose(): Promise<void> {
+    if (this.isDisposed) {
+      return;
+    }
+
+    await this.dispatch(systemActions.storeDisposed());
+    this.isDisposed = true;
+
+    this.lock.dispose(new Error("The store has been disposed."));
+    this.stack.complete();
+    this.tracker.complete();
+    this.currentState.complete();
+    this.changes.complete();
+    this.errors.complete();
+  }
+
+  /**
+   * Reports an error to the `errors$` observable and determines the policy for it from the settings.
+   * Errors already reported are returned as they are, so an error is reported once while bubbling up.
+   * Unless the error is rethrown, it is written to the diagnostics. If enabled in the settings, an `@@ERROR`
+   * action carrying the error is dispatched, except for errors raised while processing such an action.
+   * @param {any} error - The error to report.
+   * @param {ErrorOrigin} origin - The part of the store the error originates from.
+   * @param {string[]} [slice] - The path of the slice being processed, if known.
+   * @param {Action | AsyncAction} [action] - The action being processed, if any.
+   * @returns {StoreError} The reported error, carrying the policy applied to it.
+   * @protected
+   */
+  protected reportError(error: any, origin: ErrorOrigin, slice?: string[], action?: Action | AsyncAction): StoreError {
+    if (error instanceof StoreError && error.policy !== undefined) {
+      return error;
+    }
+
+    const storeError = error instanceof StoreError ? error : new StoreError(origin, error, slice, action);
+    const policy = this.settings.errorPolicies[storeError.origin] ?? "swallow";
+    // Only the changes of reducers can be rolled back
+    storeError.policy = policy === "rollback" && storeError.origin !== "reducer" ? "swallow" : policy;
+    this.errors.next(storeError);
+
+    if (storeError.policy !== "rethrow") {
+      this.diagnostics.warn(storeError.origin, storeError.message);
+    }
+
+    if (this.settings.dispatchErrorActions && !this.isDisposed && !errorOccurred.match(storeError.action)) {
+      this.dispatch(errorOccurred(storeError)).catch(() => {});
+    }
+    return storeError;
+  }
+
+  /**
+   * Describes the loaded modules and the middleware chain for debugging.
+   * @returns {StoreInspection} The snapshot of the store internals.
+   */
+  inspect(): StoreInspection {
+    return {
+      modules: [...this.references].map(([slice, references]) => ({ slice, references })),
+      middleware: this.pipeline.middleware.map(middleware => middleware.signature ?? middleware.name)
+    };
+  }
+
+  /**
+   * Adds a middleware to the chain of the running store.
+   * Middleware are identified by their `signature` property, or by reference if they have none.
+   * The chain is recomposed once the actions being processed are finished.
+   * @param {Middleware} middleware - The middleware to add.
+   * @param {Object} [position] - The position of the middleware in the chain. It is appended to the chain by default.
+   * @param {Middleware | string} [position.before] - The middleware or the signature of the middleware to insert before.
+   * @param {Middleware | string} [position.after] - The middleware or the signature of the middleware to insert after.
+   * @returns {Promise<void>}
+   */
+  async addMiddleware(middleware: Middleware, position: { before?: Middleware | string, after?: Middleware | string } = {}): Promise<void> {
+    if (this.pipeline.middleware.some(item => matches(item, middleware))) {
+      this.diagnostics.warn("middleware", `Middleware ${middleware.signature ?? middleware.name} is already added.`);
+      return;
+    }
+
+    await this.lock.acquire();
+    try {
+      const list = [...this.pipeline.middleware];
+      const anchor = position.before ?? position.after;
+      let index = anchor !== undefined ? list.findIndex(item => matches(item, anchor)) : -1;
+      if (anchor !== undefined && index === -1) {
+        this.diagnostics.warn("middleware", `Middleware ${typeof anchor === "string" ? anchor : anchor.signature ?? anchor.name} not found, the middleware is appended to the chain.`);
+      }
+
+      index = index === -1 ? list.length : position.before !== undefined ? index : index + 1;
+      list.splice(index, 0, middleware);
+      this.pipeline.middleware = list;
+      this.applyMiddleware();
+    } finally {
+      this.lock.release();
+    }
+
+    await this.systemActions.middlewareAdded(middleware);
+  }
+
+  /**
+   * Removes a middleware from the chain of the running store.
+   * The chain is recomposed once the actions being processed are finished.
+   * @param {Middleware | string} middleware - The middleware or the signature of the middleware to remove.
+   * @returns {Promise<void>}
+   */
+  async removeMiddleware(middleware: Middleware | string): Promise<void> {
+    const removed = this.pipeline.middleware.find(item => matches(item, middleware));
+    if (!removed) {
+      this.diagnostics.warn("middleware", `Middleware ${typeof middleware === "string" ? middleware : middleware.signature ?? middleware.name} not found, cannot remove.`);
+      return;
+    }
+
+    await this.lock.acquire();
+    try {
+      this.pipeline.middleware = this.pipeline.middleware.filter(item => item !== removed);
+      this.applyMiddleware();
+    } finally {
+      this.lock.release();
+    }
+
+    await this.systemActions.middlewareRemoved(removed);
+  }
+
   /**
    * Loads a feature module into the store.
+   * Loading a module that is already loaded only counts another consumer of it.
    * @param {FeatureModule} module - The feature module to load.
-   * @param {Injector} injector - The injector to use for dependency injection.
+   * @param {DependencyResolver} [resolver] - The resolver of the module dependencies. Defaults to the resolver from the store settings.
+   * @param {VersionedState} [external] - Externally supplied state of the slice, migrated to the module version and merged over the state produced by the reducer.
    * @returns {Promise<void>}
    */
-  loadModule(module: FeatureModule, injector: Injector): Promise<void> {
+  loadModule(module: FeatureModule, resolver: DependencyResolver = this.settings.resolver, external?: VersionedState): Promise<void> {
+    const path = toSlicePath(module.slice), key = path.join('.');
+
     // Check if the module already exists
-    if (this.modules.some(m => m.slice === module.slice)) {
-      return Promise.resolve(); // Module already exists, return without changes
+    const references = this.references.get(key);
+    if (references !== undefined) {
+      this.references.set(key, references + 1);
+      return Promise.resolve(); // Module already exists, only count the new consumer
     }
 
+    // Check if the module would be mounted within another module or contain one
+    const overlapping = [this.mainModule.slice!, ...this.references.keys()].map(toSlicePath).find(slice => isPrefix(slice, path) || isPrefix(path, slice));
+    if (overlapping) {
+      this.diagnostics.warn("module", `Module ${key} overlaps with the module mounted at ${overlapping.join('.')}, cannot load.`);
+      return Promise.resolve();
+    }
+
+    this.references.set(key, 1);
+
     const promise = this.lock.acquire()
       .then(() => {
         // Create a new array with the module added
         this.modules = [...this.modules, module];
 
+        // Install middleware of the module
+        module.middleware?.length && this.applyMiddleware();
+
         // Inject dependencies
-        return this.injectDependencies(injector);
+        return this.injectDependencies(resolver);
       })
-      .then(() => this.updateState("@global", state => this.setupReducer(state)))
+      .then(() => this.updateState("@global", async (current) => {
+        // Preloaded state of the slice is used once, as if it was supplied externally
+        const preloaded = getIn(this.preloaded, path);
+        if (preloaded !== undefined) {
+          this.preloaded = removeIn(this.preloaded, path, true);
+          if (external === undefined) {
+            external = { version: module.version, state: preloaded };
+            current = removeIn(current, path, true);
+          }
+        }
+
+        let state: any;
+        if (external !== undefined) {
+          try {
+            state = await this.migrate(module, external);
+          } catch (error: any) {
+            this.diagnostics.warn("module", `Error occurred while migrating ${key} from version ${external.version ?? 0}: ${error.message}`);
+            this.systemActions.migrationFailed(module, external.version ?? 0, error).catch((reason: any) => this.reportError(reason, "reducer"));
+          }
+        }
+
+        current = await this.setupReducer(current);
+        if (state !== undefined) {
+          current = setIn(current, path, merge(getIn(current, path), state));
+        }
+        return current;
+      }))
       .finally(() => this.lock.release());
 
     // Dispatch module loaded action
-    this.systemActions.moduleLoaded(module);
+    this.systemActions.moduleLoaded(module).catch((error: any) => this.reportError(error, "reducer"));
     return promise;
   }
 
   /**
    * Unloads a feature module from the store.
+   * The module is torn down only when the last of the consumers that loaded it unloads it.
    * @param {FeatureModule} module - The feature module to unload.
    * @param {boolean} [clearState=false] - A flag indicating whether to clear the module's state.
    * @returns {Promise<void>}
    */
   unloadModule(module: FeatureModule, clearState: boolean = false): Promise<void> {
-    // Find the module index in the modules array
-    const moduleIndex = this.modules.findIndex(m => m.slice === module.slice);
+    const path = toSlicePath(module.slice), key = path.join('.');
 
     // Check if the module exists
-    if (moduleIndex === -1) {
-      console.warn(`Module ${module.slice} not found, cannot unload.`);
+    const references = this.references.get(key);
+    if (references === undefined) {
+      this.diagnostics.warn("module", `Module ${key} not found, cannot unload.`);
       return Promise.resolve(); // Module not found, nothing to unload
     }
 
+    // Keep the module while other consumers use it
+    if (references > 1) {
+      this.references.set(key, references - 1);
+      return Promise.resolve();
+    }
+
+    this.references.delete(key);
+
     const promise = this.lock.acquire()
       .then(() => {
         // Remove the module from the internal state
-        this.modules.splice(moduleIndex, 1);
+        const moduleIndex = this.modules.findIndex(m => isSamePath(toSlicePath(m.slice), path));
+        const [loaded] = this.modules.splice(moduleIndex, 1);
+
+        // Remove middleware of the module
+        loaded.middleware?.length && this.applyMiddleware();
 
         // Eject dependencies
-        return this.ejectDependencies(module);
+        return this.ejectDependencies(loaded);
       })
       .then(() => this.updateState("@global", async (state) => {
         if (clearState) {
-          state = { ...state };
-          delete state[module.slice];
+          state = removeIn(state, path, true);
         }
         return await this.setupReducer(state);
       }))
       .finally(() => this.lock.release());
 
     // Dispatch module unloaded action
-    this.systemActions.moduleUnloaded(module);
+    this.systemActions.moduleUnloaded(module).catch((error: any) => this.reportError(error, "reducer"));
     return promise;
   }
 }
 
 /**
- * Creates a store instance with the specified main module and optional enhancer.
+ * Merges externally supplied state into the state produced by a reducer.
+ * Plain objects are merged recursively, any other value replaces the target.
+ * @param {any} target - The state produced by the reducer.
+ * @param {any} source - The externally supplied state.
+ * @returns {any} The merged state.
+ */
+function merge(target: any, source: any): any {
+  if (!isPlainObject(target) || !isPlainObject(source)) {
+    return source;
+  }
+
+  const result = { ...target };
+  for (const key of Object.keys(source)) {
+    result[key] = merge(target[key], source[key]);
+  }
+  return result;
+}
+
+/**
+ * Checks whether a middleware is identified by the provided middleware or signature.
+ * Middleware with a signature are compared by it, other middleware by reference.
+ * @param {Middleware} middleware - The middleware to check.
+ * @param {Middleware | string} target - The middleware or the signature to look for.
+ * @returns {boolean} True if the middleware matches.
+ */
+function matches(middleware: Middleware, target: Middleware | string): boolean {
+  if (typeof target === "string") {
+    return middleware.signature === target;
+  }
+  return middleware === target || middleware.signature !== undefined && middleware.signature === target.signature;
+}
+
+/**
+ * Limits a middleware to the actions selected by its scope.
+ * A batch is handled if any of the batched actions is in the scope.
+ * @param {Middleware} middleware - The middleware to limit.
+ * @returns {Middleware} The scoped middleware, or the middleware itself if it has no scope.
+ */
+function scope(middleware: Middleware): Middleware {
+  const predicate = middleware.scope;
+  if (!predicate) {
+    return middleware;
+  }
+
+  return (api: any) => (next: Function) => {
+    const handler = middleware(api)(next);
+    return async (action: Action) => {
+      const actions = batch.match(action) ? action.payload.actions : [action];
+      return actions.some(predicate) ? await handler(action) : await next(action);
+    };
+  };
+}
+
+/**
+ * Combines a tree of reducers into a single reducer for the slice.
+ * The state is copied only along the branches changed by the reducers.
+ * @param {Tree<Reducer>} tree - The tree of reducers.
+ * @returns {AsyncReducer} The reducer of the slice.
+ */
+function reduceTree(tree: Tree<Reducer>): AsyncReducer {
+  return async (state: any = {}, action: Action) => {
+    let result = state;
+    for (const key of Object.keys(tree)) {
+      const reducer = tree[key];
+      const current = state?.[key];
+      const updated = reducer instanceof Function ? await reducer(current, action) : await reduceTree(reducer)(current, action);
+      if (updated !== current) {
+        result = result === state ? { ...state } : result;
+        result[key] = updated;
+      }
+    }
+    return result;
+  };
+}
+
+/**
+ * Checks whether a value of a dependency tree is a token to be resolved.
+ * Plain objects and arrays are branches of the tree, primitive values are used as they are.
+ * @param {any} value - The value to check.
+ * @returns {boolean} True if the value is a token.
+ */
+function isToken(value: any): boolean {
+  return typeof value === 'function' || typeof value === 'object' && value !== null && !Array.isArray(value) && !isPlainObject(value);
+}
+
+/**
+ * Marks a path as modified in the tree of edges.
+ * Paths below an already marked path are covered by it and are not marked again.
+ * @param {Tree<boolean>} edges - The tree of modified edges.
+ * @param {string[]} path - The modified path.
+ */
+function markEdge(edges: Tree<boolean>, path: string[]): void {
+  if (!path.length) {
+    return;
+  }
+
+  let current: any = edges;
+  for (const key of path.slice(0, -1)) {
+    if (current[key] === true) {
+      return;
+    }
+    current = current[key] = current[key] ?? {};
+  }
+  current[path[path.length - 1]] = true;
+}
+
+/**
+ * Creates a store instance with the specified main module, optional settings and optional enhancer.
  * @param {MainModule} mainModule - The main module of the store.
+ * @param {Partial<StoreSettings> | StoreEnhancer} [settings] - Optional store settings, or the enhancer if the settings are omitted.
  * @param {StoreEnhancer} [enhancer] - An optional enhancer for the store.
  * @returns {Store} The created store instance.
  */
-export function createStore(mainModule: MainModule, enhancer?: StoreEnhancer) {
-  return Store.create(mainModule, enhancer);
+export function createStore(mainModule: MainModule, settings?: Partial<StoreSettings> | StoreEnhancer, enhancer?: StoreEnhancer) {
+  return Store.create(mainModule, settings, enhancer);
+}
+
+/**
+ * Composes several store enhancers into a single one.
+ * The enhancers are applied from right to left, so the first enhancer wraps all the others
+ * and its additions to the store are made last.
+ * @param {...StoreEnhancer[]} enhancers - The enhancers to compose.
+ * @returns {StoreEnhancer} The composed enhancer.
+ */
+export function composeEnhancers(...enhancers: StoreEnhancer[]): StoreEnhancer {
+  const invalid = enhancers.find(enhancer => typeof enhancer !== "function");
+  if (invalid !== undefined) {
+    defaultDiagnostics.warn("store", `Expected the enhancer to be a function. Instead, received: '${kindOf(invalid)}'`);
+  }
+
+  const valid = enhancers.filter(enhancer => typeof enhancer === "function");
+  return (createStore: StoreCreator) => valid.reduceRight((creator, enhancer) => enhancer(creator), createStore);
 }
@@ -67,6 +67,16 @@ export class Tracker {
       subject.complete(); // Complete the subject to trigger unsubscription
     }
   }
+  /**
+   * Completes the subjects of all tracked Observables and stops tracking them.
+   */
+  complete() {
+    for (const subject of this.entries.values()) {
+      subject.complete();
+    }
+    this.entries.clear();
+  }
+
   /**
    * Resets the execution status of all tracked Observables to false.
    */
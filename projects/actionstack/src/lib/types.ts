@@ -1,4 +1,3 @@
-import { InjectionToken, Type } from '@angular/core';
 import { Observable } from 'rxjs/internal/Observable';
 
 import { Store } from './store';
@@ -41,6 +40,51 @@ export type ActionCreator<T = any> = ((...args: any[]) => Action<T> | AsyncActio
   match(action: Action<T>): boolean;
 }
 
+/**
+ * Interface defining an action with a literal type and a typed payload.
+ *
+ * @typeparam T - The literal type of the action.
+ * @typeparam P - The type of the action payload.
+ */
+export interface TypedAction<T extends string = string, P = any> extends Action<P> {
+  type: T;
+  payload: P;
+}
+
+/**
+ * Represents an action creator producing typed actions.
+ *
+ * The arguments of the action creator and the type of the payload are inferred from the payload creator,
+ * and `match` narrows an arbitrary action to the action produced by this creator.
+ *
+ * @template T The literal type of the action.
+ * @template P The type of the action payload.
+ * @template A The arguments of the action creator.
+ */
+export type TypedActionCreator<T extends string = string, P = any, A extends any[] = any[]> = ((...args: A) => TypedAction<T, P>) & {
+  toString(): string;
+  type: T;
+  match(action: any): action is TypedAction<T, P>;
+}
+
+/**
+ * Represents an action creator producing thunks.
+ *
+ * @template A The arguments of the action creator.
+ */
+export type ThunkActionCreator<A extends any[] = any[]> = ((...args: A) => AsyncAction<any>) & {
+  toString(): string;
+  type: Function;
+  match(action: any): boolean;
+}
+
+/**
+ * Infers the type of the action produced by an action creator.
+ *
+ * @template C The action creator.
+ */
+export type ActionOf<C> = C extends (...args: any[]) => infer A ? (A extends Action ? A : never) : never;
+
 /**
  * A function that takes the current state and an action, and returns
  * the updated state (excluding promises).
@@ -88,10 +132,15 @@ export type MetaReducer = (reducer: AsyncReducer) => Promise<AsyncReducer>;
  * @property signature?: string (optional)
  *  - An optional string property that can be used to define a signature for the middleware,
  *      aiding in type checking and documentation.
+ *
+ * @property scope?: (action: Action) => boolean (optional)
+ *  - An optional predicate selecting the actions the middleware handles.
+ *  - Actions outside of the scope are passed to the `next` function directly.
  */
 export interface Middleware {
   (store: any): (next: Function) => (action: Action) => Promise<any>;
   signature?: string;
+  scope?: (action: Action) => boolean;
 }
 
 /**
@@ -185,6 +234,26 @@ export type Tree<LeafType, T = any> = {
   [K in keyof T]: T[K] extends object ? Tree<LeafType, T[K]> : LeafType;
 };
 
+/**
+ * Type alias for a token identifying a dependency.
+ *
+ * Tokens are classes, functions or objects other than plain objects and arrays (e.g. injection tokens).
+ * Plain objects and arrays are treated as branches of the dependency tree.
+ */
+export type DependencyToken = Function | object;
+
+/**
+ * Interface defining a resolver of the dependencies declared by modules.
+ *
+ * The store passes every token found in the dependency trees to the resolver and exposes the returned values.
+ * Angular's `Injector` is a dependency resolver, outside of Angular any object with a `get` method can be used.
+ *
+ * @property get - Returns the dependency identified by the token.
+ */
+export interface DependencyResolver {
+  get(token: any): any;
+}
+
 /**
  * Type alias representing processing strategies for side epics.
  *
@@ -197,27 +266,70 @@ export type ProcessingStrategy = "exclusive" | "concurrent";
  */
 export type SliceStrategy = "persistent" | "temporary";
 
+/**
+ * Type alias for the path a feature module is mounted at.
+ *
+ * Either a single key, a dotted path such as "admin.users", or an array of keys such as ["admin", "users"].
+ */
+export type SlicePath = string | string[];
+
+/**
+ * Type alias for a migration function.
+ *
+ * A migration receives the state of a slice saved with the previous version
+ * and returns (or resolves to) the state shaped for the next version.
+ *
+ * @param state - The state of the slice in the previous version.
+ * @returns any - The state of the slice in the next version.
+ */
+export type Migration = (state: any) => any | Promise<any>;
+
+/**
+ * Interface defining the structure of externally supplied slice state.
+ *
+ * State coming from outside the reducers (saved snapshots, server-provided initial state)
+ * carries the version of the module it was produced with, so it can be migrated before use.
+ *
+ * @property version?: number (optional) - The version of the module the state was produced with. Defaults to 0.
+ * @property state - The state of the slice.
+ */
+export interface VersionedState<T = any> {
+  version?: number;
+  state: T;
+}
+
 /**
  * Interface defining the structure of a feature module.
  *
  * Feature modules are used to organize state and logic for specific parts of an application.
  * This interface defines the expected properties for a feature module.
  *
- * @property slice - A unique string identifier for the feature module's state slice in the store.
+ * @property slice - A unique path of the feature module's state slice in the store.
+ *                  - Nested paths allow grouping sub-features under a common branch, but must not overlap with the paths of other modules.
  * @property reducer - The reducer function or a tree of reducers responsible for managing the state of the feature.
  *                  - A reducer function takes the current state slice and an action object,
  *                    and returns the updated state slice based on the action.
  *                  - A tree of reducers allows for defining nested reducers for complex state structures.
- * @property dependencies?: Tree<Type<any> | InjectionToken<any>> (optional) -
+ * @property dependencies?: Tree<DependencyToken> (optional) -
  *                   An optional tree representing the dependencies required by the feature module.
- *                   - These dependencies can be types (like classes or interfaces) or injection tokens
- *                     used for dependency injection.
+ *                   - These dependencies are tokens (like classes or injection tokens)
+ *                     passed to the dependency resolver of the store.
  *                   - The tree structure allows for specifying nested dependencies within the feature.
+ * @property version?: number (optional) - The version of the slice state shape. Defaults to 0.
+ * @property migrations?: Record<number, Migration> (optional) - Migration functions keyed by the version they migrate to.
+ *                   - Externally supplied state with an older version is passed through them in ascending order.
+ * @property middleware?: Middleware[] (optional) - Middleware installed while the module is loaded.
+ *                   - They follow the middleware of the main module and can be limited to their actions by the `scope` property.
+ * @property metaReducers?: MetaReducer[] (optional) - Meta-reducers applied only to the reducer of the module slice.
  */
 export interface FeatureModule {
-  slice: string;
+  slice: SlicePath;
   reducer: Reducer | Tree<Reducer>;
-  dependencies?: Tree<Type<any> | InjectionToken<any>>;
+  dependencies?: Tree<DependencyToken>;
+  middleware?: Middleware[];
+  metaReducers?: MetaReducer[];
+  version?: number;
+  migrations?: Record<number, Migration>;
 }
 
 /**
@@ -233,21 +345,24 @@ export interface FeatureModule {
  * @property metaReducers?: MetaReducer[] (optional) - An array of meta-reducer functions to be applied to the reducers.
  *                  - Meta-reducers are higher-order functions that can wrap and potentially modify reducers,
  *                    adding additional logic or middleware functionality.
- * @property dependencies?: Tree<Type<any> | InjectionToken<any>> (optional) -
+ * @property dependencies?: Tree<DependencyToken> (optional) -
  *                   An optional tree representing the dependencies required by the main application.
- *                   - These dependencies can be types or injection tokens used for dependency injection.
+ *                   - These dependencies are tokens passed to the dependency resolver of the store.
  *                   - The tree structure allows for specifying nested dependencies.
  * @property strategy?: ProcessingStrategy (optional) - The processing strategy for side epics within the application.
  *                  - This defines how side epics (functions performing actions outside the dispatch cycle) are executed.
  *                  - Possible strategies are "exclusive" (run one at a time) or "concurrent" (run in parallel).
+ * @property initialState?: any (optional) - The preloaded state the store is created with, such as the state rendered on the server.
+ *                  - The state of feature slices is kept until their modules are loaded and then merged over the reducer defaults.
  */
 export interface MainModule {
   slice?: string;
   middleware?: Middleware[];
   reducer: Reducer | Tree<Reducer>;
   metaReducers?: MetaReducer[];
-  dependencies?: Tree<Type<any> | InjectionToken<any>>;
+  dependencies?: Tree<DependencyToken>;
   strategy?: ProcessingStrategy;
+  initialState?: any;
 }
 
 /**
@@ -276,6 +391,32 @@ export type StoreCreator = (module: MainModule, enhancer?: StoreEnhancer) => Sto
  */
 export type StoreEnhancer = (next: StoreCreator) => StoreCreator;
 
+/**
+ * Interface describing the internals of a store for debugging.
+ *
+ * @property modules - The loaded feature modules, their dotted slice paths and the number of consumers using them.
+ * @property middleware - The signatures (or names) of the middleware of the main chain, in order.
+ */
+export interface StoreInspection {
+  modules: { slice: string, references: number }[];
+  middleware: string[];
+}
+
+/**
+ * Interface defining the handle passed to a store transaction.
+ *
+ * Actions dispatched through the handle are applied to the working copy of the state,
+ * which is committed or discarded as a whole when the transaction ends.
+ *
+ * @property dispatch - Dispatches an action or a thunk within the transaction.
+ *                    - The returned promise rejects with the error of the transaction once it has failed.
+ * @property getState - Returns the working copy of the state or a slice of it.
+ */
+export interface Transaction {
+  dispatch(action: Action | AsyncAction): Promise<void>;
+  getState<T = any>(slice?: keyof T | string[]): any;
+}
+
 /**
  * Determines the type of a given value.
  *
@@ -390,14 +531,14 @@ function isBoxed(value: any) {
 /**
  * Checks if a value is a Promise object.
  *
- * This function uses a trick to identify promises. It resolves the value with `Promise.resolve` and compares the resolved value with the original value.
- * If they are the same, it's likely a promise.
+ * Any object with a `then` method is treated as a promise. Comparing the value with the result of `Promise.resolve`
+ * is not reliable, since the promise implementation of zone.js wraps even its own promises.
  *
  * @param value - The value to check if it's a Promise.
  * @returns boolean - True if the value is a Promise, false otherwise.
  */
 function isPromise(value: any) {
-  return Promise.resolve(value) == value;
+  return value !== null && (typeof value === "object" || typeof value === "function") && typeof value.then === "function";
 }
 
 /**
@@ -447,6 +588,16 @@ function isPlainObject(obj: any): boolean {
   return Object.getPrototypeOf(obj) === proto;
 }
 
+/**
+ * Converts a slice path to an array of keys.
+ *
+ * @param slice - The key, dotted path or array of keys.
+ * @returns string[] - The keys of the path.
+ */
+function toSlicePath(slice: SlicePath): string[] {
+  return Array.isArray(slice) ? [...slice] : slice.split(".");
+}
+
 /**
  * Tests to see if the object is an RxJS {@link Observable}
  * @param obj the object to test
@@ -464,5 +615,5 @@ export const EMPTY = new Observable<never>((subscriber) => {
   subscriber.complete();
 });
 
-export { isAction, isAsync, isBoxed, isObservable, isPlainObject, isPromise, kindOf };
+export { isAction, isAsync, isBoxed, isObservable, isPlainObject, isPromise, kindOf, toSlicePath };
 
@@ -0,0 +1,90 @@
+import { isPlainObject, Tree } from './types';
+
+/**
+ * Reads the value at the provided path of the state.
+ * @param {any} state - The state to read from.
+ * @param {string[]} path - The path to the value.
+ * @returns {any} The value, or undefined if the path does not exist.
+ */
+export function getIn(state: any, path: string[]): any {
+  return path.reduce((acc, key) => acc === undefined || acc === null ? undefined : acc[key], state);
+}
+
+/**
+ * Immutably sets the value at the provided path, creating the missing branches.
+ * @param {any} state - The state to update.
+ * @param {string[]} path - The path to the value.
+ * @param {any} value - The value to set.
+ * @returns {any} The updated state.
+ */
+export function setIn(state: any, path: string[], value: any): any {
+  if (!path.length) {
+    return value;
+  }
+  const [key, ...rest] = path;
+  return { ...state, [key]: setIn(state?.[key], rest, value) };
+}
+
+/**
+ * Immutably removes the value at the provided path.
+ * @param {any} state - The state to update.
+ * @param {string[]} path - The path to the value.
+ * @param {boolean} [prune=false] - Whether to remove the branches left empty as well.
+ * @returns {any} The updated state.
+ */
+export function removeIn(state: any, path: string[], prune: boolean = false): any {
+  const [key, ...rest] = path;
+  if (state === null || typeof state !== 'object' || !(key in state)) {
+    return state;
+  }
+
+  const result = Array.isArray(state) ? [...state] : { ...state };
+  const value = rest.length ? removeIn(state[key], rest, prune) : undefined;
+  if (!rest.length || prune && (value === undefined || isPlainObject(value) && !Object.keys(value).length)) {
+    delete result[key];
+  } else {
+    result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Lists the paths marked as modified in the tree of edges.
+ * @param {Tree<boolean>} edges - The tree of modified edges.
+ * @param {string[]} [path=[]] - The path of the tree.
+ * @returns {string[][]} The modified paths.
+ */
+export function leaves(edges: Tree<boolean>, path: string[] = []): string[][] {
+  return Object.keys(edges).reduce((acc, key) => edges[key] === true
+    ? [...acc, [...path, key]]
+    : [...acc, ...leaves(edges[key] as Tree<boolean>, [...path, key])], [] as string[][]);
+}
+
+/**
+ * Checks whether a path starts with the provided prefix.
+ * @param {string[]} prefix - The prefix.
+ * @param {string[]} path - The path to check.
+ * @returns {boolean} True if the path starts with the prefix.
+ */
+export function isPrefix(prefix: string[], path: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((key, i) => key === path[i]);
+}
+
+/**
+ * Checks whether two paths are equal.
+ * @param {string[]} a - The first path.
+ * @param {string[]} b - The second path.
+ * @returns {boolean} True if the paths are equal.
+ */
+export function isSamePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && isPrefix(a, b);
+}
+
+/**
+ * Checks whether a function is a generator function.
+ * @param {any} fn - The function to check.
+ * @returns {boolean} True if the function is a generator function.
+ */
+export function isGeneratorFunction(fn: any): boolean {
+  return Object.prototype.toString.call(fn) === '[object GeneratorFunction]';
+}
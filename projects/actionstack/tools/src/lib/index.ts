@@ -1,3 +1,7 @@
 export * from "./freeze";
 export * from "./logger";
+export * from "./optimistic";
 export * from "./performance";
+export * from "./persist";
+export * from "./sync";
+export * from "./undo";
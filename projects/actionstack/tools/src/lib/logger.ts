@@ -1,6 +1,8 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 /* eslint-disable @typescript-eslint/ban-types */
 
+import { batch } from '@actioncrew/actionstack';
+
 function getLogLevel(level: string | Function | object & any, action: object, payload: any[], type: string): string {
   switch (typeof level) {
     case 'object':
@@ -18,7 +20,9 @@ function defaultTitleFormatter(options: any): Function {
   return (action: any, time: any, took: any): string => {
     const parts = ['action'];
 
-    parts.push(`%c${String(action.type)}`);
+    // Batches are titled with the types of the batched actions
+    const type = batch.match(action) ? `${action.type} [${action.payload.actions.map(child => child.type).join(', ')}]` : String(action.type);
+    parts.push(`%c${type}`);
     if (timestamp) parts.push(`%c@ ${time}`);
     if (duration) parts.push(`%c(in ${took.toFixed(2)} ms)`);
 
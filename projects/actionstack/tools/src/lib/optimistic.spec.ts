@@ -0,0 +1,97 @@
+import { action, Action, Diagnostic, Store, store as createStore } from '@actioncrew/actionstack';
+import { commitOptimistic, optimistic, optimisticUpdates, revertOptimistic } from './optimistic';
+
+const add = action("ADD", (item: string) => item);
+
+const items = (state: string[] = [], action: Action) => add.match(action) ? [...state, action.payload] : state;
+
+const create = (diagnostics: Diagnostic[] = []): Store =>
+  createStore({ slice: "main", reducer: items, strategy: "concurrent" }, { diagnosticSink: diagnostic => diagnostics.push(diagnostic) }, optimisticUpdates)!;
+
+const stateOf = (store: Store): Promise<any> => new Promise(resolve => store.read([], resolve));
+
+/**
+ * Waits for the optimistic changes to be applied, the store does not settle while their effects are pending.
+ */
+const applied = (): Promise<void> => new Promise(resolve => setTimeout(resolve));
+
+/**
+ * Creates an effect settled from the outside, standing in for a server call.
+ */
+const deferred = () => {
+  let settle!: (error?: any) => void;
+  const promise = new Promise<void>((resolve, reject) => settle = error => error ? reject(error) : resolve());
+  return { effect: () => promise, settle };
+};
+
+describe('optimistic', () => {
+  let store: Store;
+
+  afterEach(async () => {
+    await store.dispose();
+  });
+
+  it('keeps a committed change without tracking it in the state', async () => {
+    store = create();
+    const { effect, settle } = deferred();
+
+    store.dispatch(optimistic(add("a"), effect));
+    await applied();
+    expect((await stateOf(store)).main).toEqual(["a"]);
+    expect(Object.keys(await stateOf(store))).toEqual(["main"]);
+
+    settle();
+    await store.settled();
+    expect((await stateOf(store)).main).toEqual(["a"]);
+  });
+
+  it('reverts a failed change and replays the actions dispatched later', async () => {
+    const diagnostics: Diagnostic[] = [];
+    store = create(diagnostics);
+    const { effect, settle } = deferred();
+
+    store.dispatch(optimistic(add("a"), effect));
+    await applied();
+    await store.dispatch(add("b"));
+    expect((await stateOf(store)).main).toEqual(["a", "b"]);
+
+    settle(new Error("Rejected"));
+    await store.settled();
+    expect(await stateOf(store)).toEqual({ main: ["b"] });
+    expect(diagnostics.filter(diagnostic => diagnostic.category === "tools").map(diagnostic => diagnostic.message)).toEqual(["Optimistic change ADD has been reverted: Rejected"]);
+  });
+
+  it('reverts only the failed change of several pending ones', async () => {
+    store = create();
+    const first = deferred(), second = deferred();
+
+    store.dispatch(optimistic(add("a"), first.effect));
+    store.dispatch(optimistic(add("b"), second.effect));
+    await applied();
+
+    second.settle();
+    first.settle(new Error("Rejected"));
+    await store.settled();
+    expect((await stateOf(store)).main).toEqual(["b"]);
+  });
+
+  it('tracks the changes of every store separately', async () => {
+    store = create();
+    const other = create();
+    const { effect, settle } = deferred();
+
+    store.dispatch(optimistic(add("a"), effect));
+    await applied();
+    await other.dispatch(add("x"));
+    await other.dispatch(revertOptimistic("unknown"));
+    await other.dispatch(commitOptimistic("unknown"));
+
+    expect((await stateOf(other)).main).toEqual(["x"]);
+    expect((await stateOf(store)).main).toEqual(["a"]);
+
+    settle(new Error("Rejected"));
+    await store.settled();
+    expect((await stateOf(store)).main).toEqual([]);
+    await other.dispose();
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  action,
+  Action,
+  applyPatch,
+  AsyncReducer,
+  diff,
+  MainModule,
+  MetaReducer,
+  Patch,
+  salt,
+  Store,
+  StoreEnhancer,
+} from '@actioncrew/actionstack';
+
+/**
+ * Entry of the log kept while optimistic changes are pending.
+ */
+interface Entry {
+  action: Action<any>;
+  inverse: Patch[];
+  id?: string;
+}
+
+/**
+ * Action creator confirming a pending optimistic change.
+ *
+ * @param {string} id - The identifier of the optimistic change.
+ */
+export const commitOptimistic = action("OPTIMISTIC_COMMIT", (id: string) => ({ id }));
+
+/**
+ * Action creator reverting a pending optimistic change.
+ *
+ * @param {string} id - The identifier of the optimistic change.
+ * @param {any} [error] - The error that caused the change to be reverted.
+ */
+export const revertOptimistic = action("OPTIMISTIC_REVERT", (id: string, error?: any) => ({ id, error }));
+
+/**
+ * Checks whether an action has been applied optimistically.
+ *
+ * @param {Action<any>} action - The action to check.
+ * @returns {boolean} True if the action carries an optimistic change.
+ */
+export const isOptimisticAction = (action: Action<any>): boolean => action?.meta?.optimistic?.id !== undefined;
+
+/**
+ * Creates a store enhancer that keeps track of pending optimistic changes.
+ *
+ * While an optimistic change is pending, every reduced action is logged along with the inverse patch of its changes.
+ * When a change is reverted, the state is rewound to the moment before it was applied and the actions dispatched
+ * later are replayed on top, so only the failed change disappears. Confirmed changes no longer need to be tracked.
+ * The log is kept by the enhancer for every store it is applied to, so it never becomes part of the state.
+ * Reverted changes are reported to the diagnostics of the store.
+ *
+ * @returns {StoreEnhancer} The optimistic enhancer.
+ */
+export const createOptimistic = (): StoreEnhancer => (createStore) => (module: MainModule, enhancer?: StoreEnhancer): Store => {
+  // Identifiers of the changes neither committed nor reverted yet, and the actions reduced since the oldest of them
+  let pending: string[] = [];
+  let log: Entry[] = [];
+
+  const middleware = ({ diagnostics }: any) => (next: Function) => async (action: Action<any>) => {
+    if (revertOptimistic.match(action)) {
+      const change = log.find(entry => entry.id === action.payload.id);
+      change && diagnostics.warn("tools", `Optimistic change ${change.action.type} has been reverted: ${action.payload.error?.message ?? action.payload.error}`);
+    }
+    return await next(action);
+  };
+  middleware.signature = 'o.f.3.k.t.p.8.s.g.n';
+
+  const metaReducer: MetaReducer = async (reducer: AsyncReducer): Promise<AsyncReducer> => {
+    const record = async (state: any, action: Action<any>, id?: string): Promise<any> => {
+      const nextState = await reducer(state, action);
+      log = [...log, { action, id, inverse: diff(nextState, state) }];
+      return nextState;
+    };
+
+    return async function optimistic(state: any, action: Action<any>) {
+      if (commitOptimistic.match(action)) {
+        pending = pending.filter(id => id !== action.payload.id);
+      } else if (revertOptimistic.match(action)) {
+        pending = pending.filter(id => id !== action.payload.id);
+        const index = log.findIndex(entry => entry.id === action.payload.id);
+        if (index !== -1) {
+          for (let i = log.length - 1; i >= index; i--) {
+            state = applyPatch(state, log[i].inverse);
+          }
+
+          const later = log.slice(index + 1);
+          log = log.slice(0, index);
+          for (const entry of later) {
+            state = await record(state, entry.action, entry.id);
+          }
+        }
+      }
+
+      const id = isOptimisticAction(action) ? action.meta.optimistic.id : undefined;
+      if (id !== undefined) {
+        pending = [...pending, id];
+      }
+
+      if (!pending.length) {
+        log = [];
+        return await reducer(state, action);
+      }
+
+      state = await record(state, action, id);
+
+      // Entries preceding the oldest pending change are final
+      const oldest = log.findIndex(entry => entry.id !== undefined && pending.includes(entry.id));
+      log = oldest === -1 ? [] : log.slice(oldest);
+      return state;
+    };
+  };
+
+  return createStore({
+    ...module,
+    middleware: [...(module.middleware ?? []), middleware],
+    metaReducers: [...(module.metaReducers ?? []), metaReducer]
+  }, enhancer);
+};
+
+/**
+ * Store enhancer tracking optimistic changes.
+ */
+export const optimisticUpdates = createOptimistic();
+
+/**
+ * Creates a thunk that applies a change optimistically and then runs the effect confirming it.
+ * The change is committed if the effect resolves, or reverted if it throws.
+ * Meant to be returned from thunks created with `action(thunkFn)`; requires the optimistic enhancer.
+ *
+ * @param {Action<any>} change - The action applied immediately.
+ * @param {(dispatch: Function, getState: Function, dependencies: any) => Promise<any>} effect - The effect confirming the change, usually a server call.
+ * @returns {(dispatch: Function, getState: Function, dependencies: any) => Promise<void>} The thunk.
+ */
+export const optimistic = (change: Action<any>, effect: (dispatch: Function, getState: Function, dependencies: any) => Promise<any>) =>
+  async (dispatch: Function, getState: Function, dependencies: any): Promise<void> => {
+    const id = salt(10);
+    await dispatch({ ...change, meta: { ...change.meta, optimistic: { id } } });
+
+    try {
+      await effect(dispatch, getState, dependencies);
+      await dispatch(commitOptimistic(id));
+    } catch (error: any) {
+      await dispatch(revertOptimistic(id, error));
+    }
+  };
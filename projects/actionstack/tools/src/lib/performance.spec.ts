@@ -0,0 +1,21 @@
+import { action, Diagnostic, store as createStore } from '@actioncrew/actionstack';
+import { perfmon } from './performance';
+
+const increment = action("INCREMENT");
+
+describe('perfmon', () => {
+  it('writes the duration of the actions to the diagnostics of the store', async () => {
+    const diagnostics: Diagnostic[] = [];
+    const store = createStore(
+      { slice: "main", reducer: (state: number = 0) => state, middleware: [perfmon] },
+      { diagnosticCategories: ["tools"], diagnosticSink: diagnostic => diagnostics.push(diagnostic) }
+    )!;
+
+    await store.dispatch(increment());
+    await store.dispose();
+
+    const written = diagnostics.find(diagnostic => diagnostic.message.includes("INCREMENT"));
+    expect(written?.level).toBe("info");
+    expect(written?.message).toMatch(/duration: \d+\.\d{5} ms/);
+  });
+});
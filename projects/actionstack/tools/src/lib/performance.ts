@@ -1,12 +1,13 @@
-import { Action, isSystemActionType, salt } from '@actioncrew/actionstack';
+import { Action, batch, isSystemActionType, salt } from '@actioncrew/actionstack';
 
 /**
  * Creates a middleware function for logging action performance data.
+ * The durations are written at the `info` level to the diagnostics of the store, under the `tools` category.
  *
  * @returns {Function} - The middleware function to be added to the Actionstack middleware chain.
  */
 export const createPerformanceMonitor = () => {
-  const perfmon = () => (next: Function) => async (action: Action<any>): Promise<any> => {
+  const perfmon = ({ diagnostics }: any) => (next: Function) => async (action: Action<any>): Promise<any> => {
     async function processAction(action: Action<any>) {
       const startTime = performance.now(); // Capture the start time
 
@@ -20,14 +21,16 @@ export const createPerformanceMonitor = () => {
         ? `[⚙️ ${salt(5).split('').join('.')}]`
         : `[🤹 ${salt(5).split('').join('.')}]`;
 
-      console.groupCollapsed(
-        `%caction %c${action.type}%c @ ${new Date().toISOString()} (duration: ${duration.toFixed(5)} ms)\n${uniqueId}`,
+      // The batched actions are listed along with the type of the batch
+      const label = batch.match(action) ? `${action.type} [${action.payload.actions.map(child => child.type).join(', ')}]` : action.type;
+
+      diagnostics.info(
+        "tools",
+        `%caction %c${label}%c @ ${new Date().toISOString()} (duration: ${duration.toFixed(5)} ms)\n${uniqueId}`,
         'color: gray; font-weight: lighter;', // styles for 'action'
         'color: black; font-weight: bold;',   // styles for action label
         'color: gray; font-weight: lighter;'  // styles for the rest of the string
       );
-
-      console.groupEnd();
     }
 
     return await processAction(action);
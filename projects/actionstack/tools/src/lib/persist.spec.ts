@@ -0,0 +1,89 @@
+import { action, Action, FeatureModule, Store, store as createStore } from '@actioncrew/actionstack';
+import { createMemoryAdapter, createPersistence, rehydrate, StorageAdapter } from './persist';
+
+const update = action("UPDATE", (changes: any) => changes);
+
+const profile = (state: any = { name: "", token: "", age: 0 }, action: Action) => update.match(action) ? { ...state, ...action.payload } : state;
+const module: FeatureModule = { slice: "profile", reducer: profile };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const stateOf = (store: Store): Promise<any> => new Promise(resolve => store.read([], resolve));
+
+describe('createPersistence', () => {
+  let storage: StorageAdapter;
+  let store: Store;
+
+  const create = (options = {}, initial: Record<string, any> = {}) => {
+    storage = createMemoryAdapter(initial);
+    store = createStore({ slice: "main", reducer: (state: any = {}) => state }, { diagnosticLevel: "silent" }, createPersistence({ storage, throttle: 20, ...options }))!;
+    return store;
+  };
+
+  afterEach(async () => {
+    await store.dispose();
+  });
+
+  it('writes only the whitelisted paths without the blacklisted ones', async () => {
+    create({ whitelist: [["profile", "name"], ["profile", "token"]], blacklist: [["profile", "token"]] });
+    await store.loadModule(module);
+    await store.dispatch(update({ name: "Ann", token: "secret", age: 30 }));
+    await delay(50);
+
+    expect(storage.getItem("actionstack:profile")).toEqual({ version: 0, state: { name: "Ann" } });
+  });
+
+  it('writes the latest state once per throttle interval', async () => {
+    create();
+    const setItem = spyOn(storage, "setItem").and.callThrough();
+    await store.loadModule(module);
+    await store.dispatch(update({ age: 1 }));
+    await store.dispatch(update({ age: 2 }));
+    await store.dispatch(update({ age: 3 }));
+    expect(setItem).not.toHaveBeenCalled();
+
+    await delay(50);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(storage.getItem("actionstack:profile").state.age).toBe(3);
+  });
+
+  it('writes the pending changes when the store is disposed', async () => {
+    create({ throttle: 10000 });
+    await store.loadModule(module);
+    await store.dispatch(update({ name: "Ann" }));
+    expect(storage.getItem("actionstack:profile")).toBeUndefined();
+
+    await store.dispose();
+    expect(storage.getItem("actionstack:profile").state.name).toBe("Ann");
+  });
+
+  it('removes the persisted state once the last reference to the module is unloaded', async () => {
+    create();
+    await store.loadModule(module);
+    await store.loadModule(module);
+    await store.dispatch(update({ name: "Ann" }));
+    await delay(50);
+
+    await store.unloadModule(module, true);
+    expect(storage.getItem("actionstack:profile")).toBeDefined();
+
+    await store.unloadModule(module, true);
+    expect(storage.getItem("actionstack:profile")).toBeUndefined();
+  });
+
+  it('rehydrates the slice through the migrations of the module', async () => {
+    create({}, { "actionstack:profile": { version: 0, state: { fullName: "Ann" } } });
+    const rehydrated: Action[] = [];
+    await store.loadModule({
+      slice: "profile",
+      version: 1,
+      migrations: { 1: ({ fullName }: any) => ({ name: fullName }) },
+      reducer: (state: any = { name: "", age: 0 }, action: Action) => {
+        rehydrate.match(action) && rehydrated.push(action);
+        return state;
+      }
+    });
+
+    expect((await stateOf(store)).profile).toEqual({ name: "Ann", age: 0 });
+    expect(rehydrated.map(action => action.payload)).toEqual([{ slice: "profile", state: { name: "Ann", age: 0 } }]);
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  action,
+  DependencyResolver,
+  FeatureModule,
+  getIn,
+  isPrefix,
+  MainModule,
+  removeIn,
+  setIn,
+  Store,
+  StoreEnhancer,
+  toSlicePath,
+  VersionedState,
+} from '@actioncrew/actionstack';
+
+/**
+ * Interface describing a storage the persisted slices are written to.
+ *
+ * Every method may work synchronously or return a promise.
+ */
+export interface StorageAdapter {
+  getItem(key: string): any | Promise<any>;
+  setItem(key: string, value: any): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for creating the persistence enhancer.
+ *
+ * @property storage - The storage adapter to use. Defaults to `localStorageAdapter`.
+ * @property key - Prefix of the storage keys.
+ * @property whitelist - Slices or paths to persist. Everything is persisted if omitted.
+ * @property blacklist - Slices or paths excluded from persisting.
+ * @property throttle - Minimal interval (in ms) between two writes to the storage.
+ */
+export interface PersistOptions {
+  storage?: StorageAdapter;
+  key?: string;
+  whitelist?: (string | string[])[];
+  blacklist?: (string | string[])[];
+  throttle?: number;
+}
+
+/**
+ * Creates a storage adapter over the Web Storage API.
+ *
+ * @param {() => Storage} storage - Function returning the storage, evaluated lazily to stay safe outside the browser.
+ * @returns {StorageAdapter} The storage adapter.
+ */
+export const createWebStorageAdapter = (storage: () => Storage): StorageAdapter => ({
+  getItem: (key: string) => {
+    const value = storage().getItem(key);
+    return value === null ? undefined : JSON.parse(value);
+  },
+  setItem: (key: string, value: any) => storage().setItem(key, JSON.stringify(value)),
+  removeItem: (key: string) => storage().removeItem(key)
+});
+
+/**
+ * Storage adapter writing to `localStorage`.
+ */
+export const localStorageAdapter = createWebStorageAdapter(() => localStorage);
+
+/**
+ * Storage adapter writing to `sessionStorage`.
+ */
+export const sessionStorageAdapter = createWebStorageAdapter(() => sessionStorage);
+
+/**
+ * Creates a storage adapter over IndexedDB.
+ *
+ * @param {string} [name="actionstack"] - Name of the database.
+ * @param {string} [storeName="state"] - Name of the object store.
+ * @returns {StorageAdapter} The storage adapter.
+ */
+export const createIndexedDbAdapter = (name: string = "actionstack", storeName: string = "state"): StorageAdapter => {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const execute = (mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest) => {
+    database = database ?? open();
+    return database.then(db => new Promise<any>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+  };
+
+  return {
+    getItem: (key: string) => execute("readonly", store => store.get(key)),
+    setItem: (key: string, value: any) => execute("readwrite", store => store.put(value, key)).then(() => {}),
+    removeItem: (key: string) => execute("readwrite", store => store.delete(key)).then(() => {})
+  };
+};
+
+/**
+ * Creates an in-memory storage adapter, suitable for tests.
+ *
+ * @param {Record<string, any>} [initial={}] - Initial content of the storage.
+ * @returns {StorageAdapter} The storage adapter.
+ */
+export const createMemoryAdapter = (initial: Record<string, any> = {}): StorageAdapter => {
+  const items = new Map<string, any>(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key),
+    setItem: (key: string, value: any) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+/**
+ * Action creator dispatched after a slice has been rehydrated from the storage.
+ *
+ * @param {string} slice - The rehydrated slice, nested slices are addressed by dotted paths.
+ * @param {any} state - The state of the slice after the persisted state has been migrated and merged.
+ */
+export const rehydrate = action("REHYDRATE", (slice: string, state: any) => ({ slice, state }));
+
+/**
+ * Creates a store enhancer that saves the chosen slices to a storage and
+ * rehydrates them when their modules are loaded.
+ *
+ * @param {PersistOptions} [options={}] - Options for the persistence.
+ * @returns {StoreEnhancer} The persistence enhancer.
+ */
+export const createPersistence = (options: PersistOptions = {}): StoreEnhancer => {
+  const { storage = localStorageAdapter, key = "actionstack", throttle = 1000 } = options;
+  const whitelist = options.whitelist?.map(path => Array.isArray(path) ? path : [path]);
+  const blacklist = (options.blacklist ?? []).map(path => Array.isArray(path) ? path : [path]);
+
+  const storageKey = (slice: string[]) => `${key}:${slice.join('.')}`;
+
+  const isPersisted = (slice: string[]) =>
+    (!whitelist || whitelist.some(path => isPrefix(path, slice) || isPrefix(slice, path))) && !blacklist.some(path => isPrefix(path, slice));
+
+  // Reduces the slice state to the whitelisted paths without the blacklisted ones
+  const prepare = (slice: string[], state: any) => {
+    const picked = whitelist?.filter(path => isPrefix(slice, path) && path.length > slice.length) ?? [];
+    if (picked.length && !whitelist!.some(path => isPrefix(path, slice))) {
+      state = picked.map(path => path.slice(slice.length)).reduce((acc, path) => getIn(state, path) === undefined ? acc : setIn(acc, path, getIn(state, path)), {} as any);
+    }
+    return blacklist.filter(path => isPrefix(slice, path) && path.length > slice.length).reduce((acc, path) => removeIn(acc, path.slice(slice.length)), state);
+  };
+
+  return (createStore) => (module: MainModule, enhancer?: StoreEnhancer): Store => {
+    const store = createStore(module, enhancer);
+    const loadModule = store.loadModule.bind(store);
+    const unloadModule = store.unloadModule.bind(store);
+    const dispose = store.dispose.bind(store);
+
+    // Loaded modules keyed by their dotted slice paths
+    const modules = new Map<string, FeatureModule>();
+    const written = new Map<string, any>();
+    let latest: any;
+    let timeoutId: any;
+
+    const flush = async () => {
+      timeoutId = undefined;
+      for (const [slice, module] of modules) {
+        const path = toSlicePath(module.slice);
+        const value = getIn(latest, path);
+        if (value !== undefined && written.get(slice) !== value) {
+          written.set(slice, value);
+          try {
+            await storage.setItem(storageKey(path), { version: module.version ?? 0, state: prepare(path, value) } as VersionedState);
+          } catch (error: any) {
+            store.diagnostics.warn("tools", `Error occurred while persisting ${slice}: ${error.message}`);
+          }
+        }
+      }
+    };
+
+    const subscription = store.select(state$ => state$).subscribe(state => {
+      latest = state;
+      if (modules.size && timeoutId === undefined) {
+        timeoutId = setTimeout(flush, throttle);
+      }
+    });
+
+    store.loadModule = async (module: FeatureModule, resolver?: DependencyResolver, external?: VersionedState) => {
+      const path = toSlicePath(module.slice), slice = path.join('.');
+      if (external !== undefined || modules.has(slice) || !isPersisted(path)) {
+        return await loadModule(module, resolver, external);
+      }
+
+      let persisted: VersionedState | undefined;
+      try {
+        persisted = await storage.getItem(storageKey(path));
+      } catch (error: any) {
+        store.diagnostics.warn("tools", `Error occurred while rehydrating ${slice}: ${error.message}`);
+      }
+
+      // The store migrates the persisted state to the module version before merging it
+      await loadModule(module, resolver, persisted ?? undefined);
+      modules.set(slice, module);
+
+      if (persisted !== undefined && persisted !== null) {
+        let state: any;
+        await store.read(path, value => { state = value; });
+        await store.dispatch(rehydrate(slice, state));
+      }
+    };
+
+    store.unloadModule = async (module: FeatureModule, clearState: boolean = false) => {
+      const path = toSlicePath(module.slice), slice = path.join('.');
+      await unloadModule(module, clearState);
+
+      // The module stays loaded while other consumers use it
+      if (!store.inspect().modules.some(loaded => loaded.slice === slice)) {
+        const persisted = modules.delete(slice);
+        written.delete(slice);
+
+        // The cleared state must not be rehydrated the next time the module is loaded
+        if (persisted && clearState) {
+          try {
+            await storage.removeItem(storageKey(path));
+          } catch (error: any) {
+            store.diagnostics.warn("tools", `Error occurred while removing the persisted state of ${slice}: ${error.message}`);
+          }
+        }
+      }
+    };
+
+    store.dispose = async () => {
+      subscription.unsubscribe();
+
+      // The changes waiting for the throttle are written before the store is gone
+      if (timeoutId !== undefined) {
+        clearTimeout(timeoutId);
+        await flush();
+      }
+      await dispose();
+    };
+
+    return store;
+  };
+};
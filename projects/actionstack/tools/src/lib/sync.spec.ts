@@ -0,0 +1,163 @@
+import { action, Action, Store, store as createStore } from '@actioncrew/actionstack';
+import { createMemoryChannel, createSync, isRemoteAction, SyncChannel, SyncOptions } from './sync';
+
+const increment = action("INCREMENT", (amount: number = 1) => amount);
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const stateOf = (store: Store): Promise<any> => new Promise(resolve => store.read([], resolve));
+
+describe('createSync', () => {
+  let name = 0;
+  let stores: Store[];
+  let channels: SyncChannel[];
+
+  // Every tab gets its own channel with the name shared by the test
+  const connect = (options: SyncOptions = {}, received: Action[] = []) => {
+    const channel = createMemoryChannel(`sync-${name}`);
+    const posted = spyOn(channel, "postMessage").and.callThrough();
+    const sync = createSync({ channel, heartbeat: 0, timeout: 20, ...options });
+    const reducer = (state: number = 0, action: Action) => {
+      received.push(action);
+      return increment.match(action) ? state + action.payload : state;
+    };
+    const store = createStore({ slice: "main", reducer }, { diagnosticLevel: "silent" }, sync)!;
+
+    stores.push(store);
+    channels.push(channel);
+    return { store, sync, posted, messages: () => posted.calls.allArgs().map(([message]) => message) };
+  };
+
+  beforeEach(() => {
+    name++;
+    stores = [];
+    channels = [];
+  });
+
+  afterEach(async () => {
+    for (const store of stores) {
+      await store.dispose();
+    }
+    channels.forEach(channel => channel.close());
+  });
+
+  it('mirrors the dispatched actions to the other tabs', async () => {
+    const received: Action[] = [];
+    const a = connect();
+    const b = connect({}, received);
+    await delay(10);
+
+    await a.store.dispatch(increment(2));
+    await delay(10);
+
+    expect((await stateOf(b.store)).main).toBe(2);
+    expect(received.filter(increment.match).every(isRemoteAction)).toBeTrue();
+  });
+
+  it('does not broadcast the actions received from another tab again', async () => {
+    const a = connect();
+    const b = connect();
+    await delay(10);
+
+    await a.store.dispatch(increment(2));
+    await delay(10);
+
+    expect(b.messages().some(message => message.type === "action")).toBeFalse();
+    expect((await stateOf(a.store)).main).toBe(2);
+  });
+
+  it('mirrors the state of the changed slices in state mode', async () => {
+    const received: Action[] = [];
+    const a = connect({ mode: "state" });
+    const b = connect({ mode: "state" }, received);
+    await delay(10);
+
+    await a.store.dispatch(increment(3));
+    await delay(10);
+
+    expect(a.messages().find(message => message.type === "state")?.slices).toEqual({ main: 3 });
+    expect((await stateOf(b.store)).main).toBe(3);
+    expect(received.some(increment.match)).toBeFalse();
+  });
+
+  it('sends the snapshot of the leader to a tab joining later', async () => {
+    const now = spyOn(Date, "now").and.returnValue(1000);
+    const a = connect();
+    await a.store.dispatch(increment(5));
+
+    now.and.returnValue(2000);
+    const b = connect();
+    await delay(50);
+
+    expect((await stateOf(b.store)).main).toBe(5);
+    expect(a.messages().find(message => message.type === "snapshot")?.to).toBeDefined();
+    expect(b.messages().some(message => message.fallback)).toBeFalse();
+  });
+
+  it('asks every tab for the snapshot when the leader does not answer', async () => {
+    const now = spyOn(Date, "now").and.returnValue(100);
+    const leader = connect();
+    now.and.returnValue(1000);
+    const a = connect();
+    await delay(10);
+
+    // The leader stays alive, but does not answer anymore
+    leader.posted.and.stub();
+    await a.store.dispatch(increment(5));
+
+    now.and.returnValue(2000);
+    const b = connect();
+    await delay(10);
+    expect((await stateOf(b.store)).main).toBe(0);
+
+    await delay(50);
+    expect(b.messages().some(message => message.type === "snapshot-request" && message.fallback)).toBeTrue();
+    expect((await stateOf(b.store)).main).toBe(5);
+  });
+
+  it('does not take the state of the tabs joining later', async () => {
+    const now = spyOn(Date, "now").and.returnValue(1000);
+    const a = connect();
+    await a.store.dispatch(increment(5));
+
+    now.and.returnValue(2000);
+    connect();
+    await delay(50);
+
+    expect(a.messages().some(message => message.fallback)).toBeFalse();
+    expect((await stateOf(a.store)).main).toBe(5);
+  });
+
+  it('stops the timers and the subscription when the enhancer is closed', async () => {
+    const a = connect({ heartbeat: 10 });
+    const b = connect();
+    await delay(10);
+
+    a.sync.close();
+    const posted = a.posted.calls.count();
+    expect(a.messages()[posted - 1].type).toBe("leave");
+
+    await b.store.dispatch(increment(2));
+    await delay(50);
+
+    expect(a.posted.calls.count()).toBe(posted);
+    expect((await stateOf(a.store)).main).toBe(0);
+  });
+
+  it('stops the timers and the subscription when the store is disposed', async () => {
+    const a = connect({ heartbeat: 10 });
+    const b = connect();
+    const received = spyOn(a.store, "dispatch").and.callThrough();
+    await delay(10);
+
+    await a.store.dispose();
+    const posted = a.posted.calls.count();
+    expect(a.messages()[posted - 1].type).toBe("leave");
+
+    received.calls.reset();
+    await b.store.dispatch(increment(2));
+    await delay(50);
+
+    expect(a.posted.calls.count()).toBe(posted);
+    expect(received).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,306 @@
+import {
+  action,
+  Action,
+  AsyncReducer,
+  isSystemActionType,
+  MainModule,
+  MetaReducer,
+  salt,
+  Store,
+  StoreEnhancer,
+  StoreError,
+} from '@actioncrew/actionstack';
+
+/**
+ * Interface describing a message exchanged between tabs.
+ */
+export interface SyncMessage {
+  type: "hello" | "heartbeat" | "leave" | "action" | "state" | "snapshot-request" | "snapshot";
+  id: string;
+  rank?: number;
+  to?: string;
+  fallback?: boolean;
+  action?: Action<any>;
+  slices?: Record<string, any>;
+}
+
+/**
+ * Interface describing a channel the tabs communicate through.
+ *
+ * Messages posted by a channel are delivered to all other channels with the same name, but not to the sender.
+ */
+export interface SyncChannel {
+  postMessage(message: SyncMessage): void;
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  close(): void;
+}
+
+/**
+ * Options for creating the synchronization enhancer.
+ *
+ * @property channel - The channel to communicate through, or the name of the BroadcastChannel to create.
+ * @property slices - Slices to keep in sync. All slices are synchronized if omitted.
+ * @property mode - Whether to mirror the dispatched actions or the resulting state of the changed slices.
+ * @property heartbeat - Interval (in ms) of the heartbeat used for the leader election. Set to 0 to disable heartbeats.
+ * @property timeout - Time (in ms) to wait for the leader to answer a snapshot request before asking all tabs.
+ */
+export interface SyncOptions {
+  channel?: SyncChannel | string;
+  slices?: string[];
+  mode?: "action" | "state";
+  heartbeat?: number;
+  timeout?: number;
+}
+
+/**
+ * Type alias for the synchronization enhancer.
+ * Its `close` method stops synchronizing every store it has been applied to, which also happens when a store is disposed.
+ */
+export type SyncEnhancer = StoreEnhancer & { close(): void };
+
+/**
+ * Creates a channel over the BroadcastChannel API.
+ *
+ * @param {string} name - The name of the channel.
+ * @returns {SyncChannel} The channel.
+ */
+export const createBroadcastChannel = (name: string): SyncChannel => {
+  const channel = new BroadcastChannel(name);
+  return {
+    postMessage: (message: SyncMessage) => channel.postMessage(message),
+    subscribe: (listener: (message: SyncMessage) => void) => {
+      const handler = (event: MessageEvent) => listener(event.data);
+      channel.addEventListener("message", handler);
+      return () => channel.removeEventListener("message", handler);
+    },
+    close: () => channel.close()
+  };
+};
+
+/**
+ * Registry of the in-memory channels grouped by name.
+ */
+const memoryChannels = new Map<string, Set<(message: SyncMessage) => void>>();
+
+/**
+ * Creates an in-memory stand-in for the BroadcastChannel, suitable for tests.
+ * Messages are cloned and delivered asynchronously, like the browser does.
+ *
+ * @param {string} name - The name of the channel.
+ * @returns {SyncChannel} The channel.
+ */
+export const createMemoryChannel = (name: string): SyncChannel => {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  const peers = memoryChannels.get(name) ?? new Set();
+  memoryChannels.set(name, peers);
+
+  const deliver = (message: SyncMessage) => listeners.forEach(listener => listener(message));
+  peers.add(deliver);
+
+  return {
+    postMessage: (message: SyncMessage) => {
+      const data = JSON.stringify(message);
+      peers.forEach(peer => peer !== deliver && queueMicrotask(() => peer(JSON.parse(data))));
+    },
+    subscribe: (listener: (message: SyncMessage) => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => {
+      listeners.clear();
+      peers.delete(deliver);
+      if (!peers.size) {
+        memoryChannels.delete(name);
+      }
+    }
+  };
+};
+
+/**
+ * Action creator applying the state of slices received from another tab.
+ *
+ * @param {Record<string, any>} slices - The received state keyed by slice.
+ */
+export const syncState = action("SYNC_STATE", (slices: Record<string, any>) => ({ slices }));
+
+/**
+ * Checks whether an action has been received from another tab.
+ *
+ * @param {Action<any>} action - The action to check.
+ * @returns {boolean} True if the action came from another tab.
+ */
+export const isRemoteAction = (action: Action<any>): boolean => action?.meta?.remote === true;
+
+/**
+ * Creates a store enhancer that mirrors changes of the selected slices across tabs.
+ *
+ * Local actions changing the selected slices are broadcast to other tabs, either as they are or as the
+ * resulting state of the changed slices. Received actions are tagged with `meta.remote` and are never
+ * broadcast again. A tab joining later requests a snapshot, answered by the elected leader (the oldest tab alive).
+ * If the leader does not answer in time, the request is repeated to every tab, provided an older tab is known.
+ * The timers and the channel subscription of a store are released when the store is disposed, the page is hidden
+ * or the enhancer is closed. Channels created by the enhancer are closed as well.
+ *
+ * @param {SyncOptions} [options={}] - Options for the synchronization.
+ * @returns {SyncEnhancer} The synchronization enhancer.
+ */
+export const createSync = (options: SyncOptions = {}): SyncEnhancer => {
+  const { slices, mode = "action", heartbeat = 1000, timeout = 1000 } = options;
+
+  // Stops the synchronization of every store the enhancer has been applied to
+  const connections = new Set<() => void>();
+
+  const sync: StoreEnhancer = (createStore) => (module: MainModule, enhancer?: StoreEnhancer): Store => {
+    const owned = typeof options.channel !== 'object';
+    const channel = typeof options.channel === 'object'
+      ? options.channel
+      : typeof BroadcastChannel !== 'undefined'
+        ? createBroadcastChannel(options.channel ?? "actionstack")
+        : createMemoryChannel(options.channel ?? "actionstack");
+
+    const id = salt(10), rank = Date.now();
+    const peers = new Map<string, { rank: number, seen: number }>();
+    let store: Store;
+    let getState: () => any = () => undefined;
+    let snapshotReceived = false;
+
+    const select = (state: any): Record<string, any> => {
+      const keys = slices ?? Object.keys(state ?? {});
+      return keys.reduce((acc, key) => state?.[key] !== undefined ? { ...acc, [key]: state[key] } : acc, {} as Record<string, any>);
+    };
+
+    let closed = false;
+
+    const post = (message: Omit<SyncMessage, "id">) => {
+      if (closed) {
+        return;
+      }
+      try {
+        channel.postMessage({ ...message, id } as SyncMessage);
+      } catch (error: any) {
+        store.diagnostics.warn("tools", `Error occurred while broadcasting ${message.type}: ${error.message}`);
+      }
+    };
+
+    const isLeader = () => {
+      const now = Date.now();
+      return [...peers.entries()]
+        .filter(([_, peer]) => !heartbeat || now - peer.seen < heartbeat * 3)
+        .every(([peerId, peer]) => peer.rank > rank || peer.rank === rank && peerId > id);
+    };
+
+    const remote = (action: Action<any>, origin: string) => ({ ...action, meta: { ...action.meta, remote: true, origin } });
+
+    // Store errors are reported on errors$ before dispatch rethrows them, only the other ones are left to report
+    const receive = (action: Action<any>, origin: string) => store.dispatch(remote(action, origin)).catch((error: any) => {
+      error instanceof StoreError || store.diagnostics.warn("tools", `Error occurred while applying ${action.type} received from another tab: ${error?.message ?? error}`);
+    });
+
+    const middleware = ({ getState: state }: any) => {
+      getState = state;
+      return (next: Function) => async (action: Action<any>) => {
+        if (action.type === "STORE_DISPOSED") {
+          close();
+        }
+        if (isRemoteAction(action) || isSystemActionType(action.type)) {
+          return await next(action);
+        }
+
+        const previous = select(getState());
+        const result = await next(action);
+        const current = select(getState());
+
+        const changed = Object.keys({ ...previous, ...current }).filter(key => previous[key] !== current[key]);
+        if (changed.length) {
+          if (mode === "action") {
+            post({ type: "action", action });
+          } else {
+            post({ type: "state", slices: changed.reduce((acc, key) => ({ ...acc, [key]: current[key] }), {}) });
+          }
+        }
+        return result;
+      };
+    };
+    middleware.signature = 't.k.w.o.2.o.a.1.c.r';
+
+    const metaReducer: MetaReducer = async (reducer: AsyncReducer) => async (state: any, action: Action<any>) => {
+      if (syncState.match(action)) {
+        return { ...state, ...action.payload.slices };
+      }
+      return await reducer(state, action);
+    };
+
+    store = createStore({
+      ...module,
+      middleware: [...(module.middleware ?? []), middleware],
+      metaReducers: [...(module.metaReducers ?? []), metaReducer]
+    }, enhancer);
+
+    const unsubscribe = channel.subscribe((message: SyncMessage) => {
+      if (message.id === id || message.to !== undefined && message.to !== id) {
+        return;
+      }
+
+      if (message.rank !== undefined) {
+        peers.set(message.id, { rank: message.rank, seen: Date.now() });
+      }
+
+      switch (message.type) {
+        case "hello":
+          post({ type: "heartbeat", rank });
+          break;
+        case "leave":
+          peers.delete(message.id);
+          break;
+        case "action":
+          receive(message.action!, message.id);
+          break;
+        case "state":
+          receive(syncState(message.slices!), message.id);
+          break;
+        case "snapshot-request":
+          if (message.fallback || isLeader()) {
+            post({ type: "snapshot", to: message.id, slices: select(getState()) });
+          }
+          break;
+        case "snapshot":
+          if (!snapshotReceived) {
+            snapshotReceived = true;
+            receive(syncState(message.slices!), message.id);
+          }
+          break;
+      }
+    });
+
+    post({ type: "hello", rank });
+    post({ type: "snapshot-request" });
+
+    // Ask every tab if the leader did not answer in time. Tabs joining later hold no state older than this one,
+    // so the request is only worth posting when an older tab is known.
+    const fallback = () => !snapshotReceived && [...peers.values()].some(peer => peer.rank < rank) && post({ type: "snapshot-request", fallback: true });
+    const timeoutId = setTimeout(fallback, timeout);
+    const intervalId = heartbeat ? setInterval(() => post({ type: "heartbeat", rank }), heartbeat) : undefined;
+
+    const close = () => {
+      if (closed) {
+        return;
+      }
+      post({ type: "leave" });
+      closed = true;
+
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+      unsubscribe();
+      owned && channel.close();
+      typeof window !== 'undefined' && window.removeEventListener("pagehide", close);
+      connections.delete(close);
+    };
+
+    connections.add(close);
+    typeof window !== 'undefined' && window.addEventListener("pagehide", close);
+
+    return store;
+  };
+
+  return Object.assign(sync, { close: () => connections.forEach(connection => connection()) });
+};
@@ -0,0 +1,125 @@
+import { action, Action, consoleSink, defaultDiagnostics, Diagnostic, MainModule, Store, store as createStore } from '@actioncrew/actionstack';
+import { canRedo, canUndo, clearHistory, createUndoable, jump, redo, undo } from './undo';
+
+const set = action("SET", (value: any) => value);
+const rename = action("RENAME", (name: string) => name);
+
+const value = (initial: any) => (state: any = initial, action: Action) => set.match(action) ? action.payload : state;
+const profile = (state: any = { name: "" }, action: Action) => rename.match(action) ? { ...state, name: action.payload } : state;
+
+const create = (module: Partial<MainModule> = {}): Store =>
+  createStore({ slice: "main", reducer: profile, ...module }, { diagnosticLevel: "silent" })!;
+
+const stateOf = (store: Store): Promise<any> => new Promise(resolve => store.read([], resolve));
+
+describe('undoable', () => {
+  let store: Store;
+  let diagnostics: Diagnostic[];
+
+  beforeEach(() => {
+    diagnostics = [];
+    defaultDiagnostics.configure({ diagnosticSink: diagnostic => diagnostics.push(diagnostic) });
+  });
+
+  afterEach(async () => {
+    defaultDiagnostics.configure({ diagnosticSink: consoleSink });
+    await store.dispose();
+  });
+
+  it('records the whole state when applied to the store', async () => {
+    store = create({ metaReducers: [createUndoable()] });
+    await store.dispatch(rename("a"));
+    await store.dispatch(rename("b"));
+
+    await store.dispatch(undo());
+    expect((await stateOf(store)).main).toEqual({ name: "a" });
+    await store.dispatch(undo());
+    expect((await stateOf(store)).main).toEqual({ name: "" });
+    await store.dispatch(redo());
+    expect((await stateOf(store)).main).toEqual({ name: "a" });
+    await store.dispatch(jump(1));
+    expect((await stateOf(store)).main).toEqual({ name: "b" });
+  });
+
+  it('records the plain object state of a feature slice', async () => {
+    store = create();
+    await store.loadModule({ slice: "feature", reducer: profile, metaReducers: [createUndoable()] });
+    await store.dispatch(rename("a"));
+    await store.dispatch(rename("b"));
+
+    await store.dispatch(undo());
+    const state = await stateOf(store);
+    expect(state.feature.name).toBe("a");
+    expect(state.feature["@history"].future.length).toBe(1);
+  });
+
+  it('records primitive and array slices selected by paths', async () => {
+    store = create({
+      reducer: { count: value(5), items: value([1]) },
+      metaReducers: [createUndoable({ paths: [["main", "count"], ["main", "items"]] })]
+    });
+    await store.dispatch(set(6));
+    expect((await stateOf(store)).main).toEqual({ count: 6, items: 6 });
+
+    await store.dispatch(undo());
+    const state = await stateOf(store);
+    expect(state.main).toEqual({ count: 5, items: [1] });
+    expect(Array.isArray(state.main.items)).toBeTrue();
+    expect(state["@history"].future.length).toBe(1);
+  });
+
+  it('refuses to keep the history in primitive and array feature slices', async () => {
+    store = create();
+    await store.loadModule({ slice: "count", reducer: value(5), metaReducers: [createUndoable()] });
+    await store.loadModule({ slice: "items", reducer: value([1]), metaReducers: [createUndoable()] });
+
+    await store.dispatch(set(6));
+    await store.dispatch(undo());
+    const state = await stateOf(store);
+    expect(state.count).toBe(6);
+    expect(state.items).toBe(6);
+
+    await store.dispatch(set([2]));
+    expect((await stateOf(store)).items).toEqual([2]);
+    expect(diagnostics.filter(diagnostic => diagnostic.category === "tools" && diagnostic.level === "warn").length).toBe(2);
+  });
+
+  it('groups the actions dispatched within the group interval', async () => {
+    let now = 1000;
+    spyOn(Date, "now").and.callFake(() => now);
+    store = create({ metaReducers: [createUndoable({ groupInterval: 100 })] });
+
+    await store.dispatch(rename("a"));
+    now += 50;
+    await store.dispatch(rename("ab"));
+    now += 50;
+    await store.dispatch(rename("abc"));
+    now += 500;
+    await store.dispatch(rename("abcd"));
+
+    await store.dispatch(undo());
+    expect((await stateOf(store)).main.name).toBe("abc");
+    await store.dispatch(undo());
+    expect((await stateOf(store)).main.name).toBe("");
+  });
+
+  it('tells whether there is an entry to step back or forward to', async () => {
+    store = create({ metaReducers: [createUndoable()] });
+    const undoable: unknown[] = [], redoable: unknown[] = [];
+    store.select(canUndo()).subscribe(value => undoable.push(value));
+    store.select(canRedo()).subscribe(value => redoable.push(value));
+    await store.settled();
+    expect(undoable[undoable.length - 1]).toBeFalse();
+    expect(redoable[redoable.length - 1]).toBeFalse();
+
+    await store.dispatch(rename("a"));
+    expect(undoable[undoable.length - 1]).toBeTrue();
+
+    await store.dispatch(undo());
+    expect(undoable[undoable.length - 1]).toBeFalse();
+    expect(redoable[redoable.length - 1]).toBeTrue();
+
+    await store.dispatch(clearHistory());
+    expect(redoable[redoable.length - 1]).toBeFalse();
+  });
+});
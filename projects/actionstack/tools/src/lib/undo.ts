@@ -0,0 +1,211 @@
+import {
+  action,
+  Action,
+  AsyncReducer,
+  defaultDiagnostics,
+  featureSelector,
+  getIn,
+  isPlainObject,
+  isSystemActionType,
+  kindOf,
+  MetaReducer,
+  selector,
+  setIn,
+} from '@actioncrew/actionstack';
+import { Observable } from 'rxjs/internal/Observable';
+import { map } from 'rxjs/internal/operators/map';
+
+/**
+ * Key of the state branch where the undo history is kept.
+ */
+const HISTORY_KEY = "@history";
+
+/**
+ * Snapshot of the tracked slices, keyed by the joined slice path.
+ */
+type Snapshot = Record<string, any>;
+
+/**
+ * Interface describing the undo history stored in the state.
+ *
+ * @property past - Snapshots preceding the present state, oldest first.
+ * @property future - Snapshots following the present state, nearest first.
+ * @property recorded - Time (in ms) the latest snapshot was recorded at, used to group rapid actions.
+ */
+export interface History {
+  past: Snapshot[];
+  future: Snapshot[];
+  recorded?: number;
+}
+
+/**
+ * Options for creating the undoable meta-reducer.
+ *
+ * @property paths - Slice keys or paths whose state is recorded. The whole state is recorded if omitted.
+ * @property limit - Maximum number of snapshots kept in the past.
+ * @property groupInterval - Actions dispatched within this interval (in ms) of the previous recorded one are grouped into a single history entry.
+ * @property filter - Optional predicate deciding whether an action is recorded.
+ */
+export interface UndoableOptions {
+  paths?: (string | string[])[];
+  limit?: number;
+  groupInterval?: number;
+  filter?: (action: Action<any>) => boolean;
+}
+
+/**
+ * Action creator for stepping one entry back in history.
+ */
+export const undo = action("UNDO");
+
+/**
+ * Action creator for stepping one entry forward in history.
+ */
+export const redo = action("REDO");
+
+/**
+ * Action creator for moving several entries through history.
+ *
+ * @param {number} index - Number of steps to move. Negative values go back, positive go forward.
+ */
+export const jump = action("JUMP", (index: number) => ({ index }));
+
+/**
+ * Action creator for dropping all recorded history.
+ */
+export const clearHistory = action("CLEAR_HISTORY");
+
+/**
+ * Creates a meta-reducer that records snapshots of the selected slices and travels through them on demand.
+ *
+ * The history is kept next to the recorded state, so the state has to be a plain object. Slices holding
+ * primitives or arrays are recorded by applying the meta-reducer to the store and selecting them with `paths`.
+ *
+ * @param {UndoableOptions} [options={}] - Options for the undo history.
+ * @returns {MetaReducer} The undoable meta-reducer.
+ */
+export const createUndoable = (options: UndoableOptions = {}): MetaReducer => {
+  const { limit = 50, groupInterval = 0, filter } = options;
+  const paths = options.paths?.map(path => Array.isArray(path) ? path : [path]);
+  let refused = false;
+
+  // The history cannot be attached to primitives and arrays without changing their shape
+  const accepts = (state: any): boolean => {
+    if (state === undefined || isPlainObject(state)) {
+      return true;
+    }
+    if (!refused) {
+      refused = true;
+      defaultDiagnostics.warn("tools", `Undo history cannot be kept in a state of type '${kindOf(state)}'. Apply the undoable meta-reducer to the store and select the slice with the paths option.`);
+    }
+    return false;
+  };
+
+  const snapshot = (state: any): Snapshot => {
+    if (!paths) {
+      const { [HISTORY_KEY]: _, ...rest } = state ?? {};
+      return { "@global": rest };
+    }
+    return paths.reduce((acc, path) => ({ ...acc, [path.join('.')]: getIn(state, path) }), {} as Snapshot);
+  };
+
+  const restore = (state: any, snapshot: Snapshot, history: History): any => {
+    if (!paths) {
+      return { ...snapshot["@global"], [HISTORY_KEY]: history };
+    }
+    state = paths.reduce((acc, path) => setIn(acc, path, snapshot[path.join('.')]), state);
+    return { ...state, [HISTORY_KEY]: history };
+  };
+
+  const isModified = (previous: any, next: any): boolean => {
+    if (!paths) {
+      return Object.keys({ ...previous, ...next }).some(key => key !== HISTORY_KEY && previous?.[key] !== next?.[key]);
+    }
+    return paths.some(path => getIn(previous, path) !== getIn(next, path));
+  };
+
+  const travel = (state: any, history: History, steps: number): any => {
+    const { past, future } = history;
+    const present = snapshot(state);
+
+    if (steps < 0) {
+      const count = Math.min(-steps, past.length);
+      if (count === 0) { return state; }
+      const target = past[past.length - count];
+      return restore(state, target, {
+        past: past.slice(0, past.length - count),
+        future: [...past.slice(past.length - count + 1), present, ...future]
+      });
+    } else if (steps > 0) {
+      const count = Math.min(steps, future.length);
+      if (count === 0) { return state; }
+      const target = future[count - 1];
+      return restore(state, target, {
+        past: [...past, present, ...future.slice(0, count - 1)],
+        future: future.slice(count)
+      });
+    }
+
+    return state;
+  };
+
+  return async (reducer: AsyncReducer): Promise<AsyncReducer> => {
+    return async function undoable(state: any, action: Action<any>) {
+      if (!accepts(state)) {
+        return await reducer(state, action);
+      }
+
+      const history: History = state?.[HISTORY_KEY] ?? { past: [], future: [] };
+
+      switch (action.type) {
+        case undo.type:
+          return travel(state, history, -1);
+        case redo.type:
+          return travel(state, history, 1);
+        case jump.type:
+          return travel(state, history, action.payload.index);
+        case clearHistory.type:
+          return { ...state, [HISTORY_KEY]: { past: [], future: [] } };
+      }
+
+      const nextState = await reducer(state, action);
+
+      if (!accepts(nextState) || isSystemActionType(action.type) || (typeof filter === 'function' && !filter(action)) || !isModified(state, nextState)) {
+        return nextState;
+      }
+
+      // Group rapid actions by keeping the snapshot taken before the first of them
+      const now = Date.now();
+      const grouped = groupInterval > 0 && history.past.length > 0 && now - (history.recorded ?? 0) < groupInterval;
+
+      const past = grouped ? history.past : [...history.past, snapshot(state)].slice(-limit);
+      return { ...nextState, [HISTORY_KEY]: { past, future: [], recorded: now } };
+    };
+  };
+};
+
+/**
+ * Meta-reducer that records the whole state with default options.
+ */
+export const undoable = createUndoable();
+
+/**
+ * History of a state nothing has been recorded for yet.
+ */
+const EMPTY_HISTORY: History = { past: [], future: [] };
+
+/**
+ * Selector returning the undo history, which is empty until the first change is recorded.
+ */
+export const selectHistory = (state$: Observable<any>): Observable<History> =>
+  featureSelector<History>(HISTORY_KEY)(state$).pipe(map(history => history ?? EMPTY_HISTORY));
+
+/**
+ * Selector returning whether there is an entry to step back to.
+ */
+export const canUndo = selector(selectHistory, (history: History) => history.past.length > 0);
+
+/**
+ * Selector returning whether there is an entry to step forward to.
+ */
+export const canRedo = selector(selectHistory, (history: History) => history.future.length > 0);
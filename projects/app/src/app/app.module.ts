@@ -1,4 +1,5 @@
-import { Action, StoreModule } from '@actioncrew/actionstack';
+import { Action } from '@actioncrew/actionstack';
+import { StoreModule } from '@actioncrew/actionstack/angular';
 import { EpicModule, epics } from '@actioncrew/actionstack/epics';
 import { perfmon } from '@actioncrew/actionstack/tools';
 import { NgModule } from '@angular/core';
@@ -1,4 +1,4 @@
-import { Slice } from '@actioncrew/actionstack';
+import { Slice } from '@actioncrew/actionstack/angular';
 import { CommonModule } from '@angular/common';
 import { Component, OnInit } from '@angular/core';
 import { RouterModule } from '@angular/router';
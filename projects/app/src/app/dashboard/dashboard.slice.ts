@@ -2,6 +2,7 @@ import { action, featureSelector, selector } from '@actioncrew/actionstack';
 import { firstValueFrom } from 'rxjs';
 
 import { Hero } from '../hero';
+import { HeroService } from '../hero.service';
 import { addMessage } from '../messages/messages.slice';
 
 export const slice = "dashboard";
@@ -13,7 +14,7 @@ export const loadHeroesFailure = action('LOAD_HEROES_FAILURE', (error: Error) =>
 export const loadHeroes = action(() => async (dispatch: Function, getState: Function, dependencies: any) => {
   dispatch(loadHeroesRequest());
   try {
-    const heroService = dependencies.heroService;
+    const heroService: HeroService = dependencies.heroService;
     const heroes = await firstValueFrom(heroService.getHeroes());
     dispatch(loadHeroesSuccess(heroes));
     dispatch(addMessage('HeroService: fetched heroes'));
@@ -1,4 +1,4 @@
-import { StoreModule } from '@actioncrew/actionstack';
+import { StoreModule } from '@actioncrew/actionstack/angular';
 import { CommonModule } from '@angular/common';
 import { NgModule } from '@angular/core';
 import { FormsModule } from '@angular/forms';
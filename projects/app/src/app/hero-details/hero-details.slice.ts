@@ -2,6 +2,7 @@ import { Action, action, featureSelector, selector } from '@actioncrew/actionsta
 import { firstValueFrom } from 'rxjs';
 
 import { Hero } from '../hero';
+import { HeroService } from '../hero.service';
 import { addMessage } from '../messages/messages.slice';
 
 export const slice = "hero-details";
@@ -13,11 +14,11 @@ export const loadHeroFailure = action('LOAD_HERO_FAILURE', (error: Error) => ({
 export const loadHero = action((id: number) => async (dispatch: Function, getState: Function, dependencies: any) => {
   dispatch(loadHeroRequest(id));
   try {
-    const heroService = dependencies.heroService;
+    const heroService: HeroService = dependencies.heroService;
     const hero = await firstValueFrom(heroService.getHero(id));
     dispatch(addMessage(`HeroService: fetched hero id=${id}`));
     dispatch(loadHeroSuccess(hero));
-  } catch (error) {
+  } catch (error: any) {
     dispatch(loadHeroFailure(error));
   }
 });